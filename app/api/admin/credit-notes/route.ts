@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance, isAdmin } from '@/utils/auth';
+import { completeAdminAction, startAdminAction } from '@/utils/admin-audit';
+import { CREDIT_NOTE_REASONS, creditInvoice, getAdjustmentIdempotencyKey } from '@/utils/billing-adjustments';
+
+/**
+ * Issue a credit note against an invoice, fully or partially. `amount` is in
+ * the smallest currency unit and defaults to everything not yet credited. The
+ * required `idempotencyKey` identifies one submission; resending it returns the
+ * same credit note.
+ */
+export const POST = withCors(withRateLimit(RATE_LIMITS.adminBilling, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { invoiceId, amount, reason, creditReason, idempotencyKey } = await request.json();
+
+    if (!invoiceId) {
+      return NextResponse.json({ error: 'Invoice ID is required' }, { status: 400 });
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json({ error: 'A reason is required' }, { status: 400 });
+    }
+
+    if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+      return NextResponse.json({ error: 'amount must be a positive amount in the smallest currency unit' }, { status: 400 });
+    }
+
+    if (creditReason && !CREDIT_NOTE_REASONS.includes(creditReason)) {
+      return NextResponse.json({ error: 'Invalid creditReason' }, { status: 400 });
+    }
+
+    const stripeIdempotencyKey = getAdjustmentIdempotencyKey('credit-note', idempotencyKey);
+
+    if (!stripeIdempotencyKey) {
+      return NextResponse.json({ error: 'An idempotencyKey is required, generate one per submission' }, { status: 400 });
+    }
+
+    const requested = { amount: amount ?? null, creditReason: creditReason ?? null, idempotencyKey: stripeIdempotencyKey };
+
+    // Written first so a credit note can't be issued without an audit record
+    const auditId = await startAdminAction({
+      adminUserId: user.id,
+      action: 'credit_note.created',
+      targetType: 'invoice',
+      targetId: invoiceId,
+      reason: reason.trim(),
+      details: requested
+    });
+
+    let creditNote: Awaited<ReturnType<typeof creditInvoice>>;
+    try {
+      creditNote = await creditInvoice(invoiceId, {
+        amount,
+        reason: reason.trim(),
+        creditReason,
+        adminUserId: user.id,
+        idempotencyKey: stripeIdempotencyKey
+      });
+    } catch (error) {
+      await completeAdminAction(auditId, 'failed', {
+        ...requested,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+
+    if (!creditNote.ok) {
+      await completeAdminAction(auditId, 'failed', { ...requested, error: creditNote.reason });
+      return NextResponse.json({ error: creditNote.reason }, { status: 400 });
+    }
+
+    await completeAdminAction(auditId, 'succeeded', {
+      ...requested,
+      creditNoteId: creditNote.result.id,
+      amount: creditNote.result.amount,
+      currency: creditNote.result.currency
+    });
+
+    console.log('Credit note issued:', { admin: user.id, invoiceId, creditNoteId: creditNote.result.id });
+
+    return NextResponse.json({
+      status: 'success',
+      creditNoteId: creditNote.result.id,
+      number: creditNote.result.number,
+      amount: creditNote.result.amount,
+      currency: creditNote.result.currency,
+      pdf: creditNote.result.pdf
+    });
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeIdempotencyError) {
+      return NextResponse.json({ error: 'This idempotency key was already used for a different credit note' }, { status: 409 });
+    }
+
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Credit note creation failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create credit note',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
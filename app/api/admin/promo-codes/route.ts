@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance, isAdmin } from '@/utils/auth';
+import { describeCoupon } from '@/utils/promo-codes';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+const DURATIONS: Stripe.CouponCreateParams.Duration[] = ['once', 'repeating', 'forever'];
+
+/**
+ * Create a campaign code: a coupon plus a customer-facing promotion code
+ * that stops working at `expiresAt`.
+ */
+export const POST = withCors(withRateLimit(RATE_LIMITS.adminBilling, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const {
+      code,
+      name,
+      percentOff,
+      amountOff,
+      currency,
+      duration = 'once',
+      durationInMonths,
+      expiresAt,
+      maxRedemptions,
+      productIds
+    } = await request.json();
+
+    if (!code || !/^[A-Za-z0-9_-]+$/.test(code)) {
+      return NextResponse.json({ error: 'Code may only contain letters, numbers, dashes and underscores' }, { status: 400 });
+    }
+
+    if (!percentOff === !amountOff) {
+      return NextResponse.json({ error: 'Provide either percentOff or amountOff' }, { status: 400 });
+    }
+
+    if (percentOff && (percentOff <= 0 || percentOff > 100)) {
+      return NextResponse.json({ error: 'percentOff must be between 0 and 100' }, { status: 400 });
+    }
+
+    if (amountOff && (!Number.isInteger(amountOff) || amountOff <= 0 || !currency)) {
+      return NextResponse.json({ error: 'amountOff must be a positive amount in the smallest currency unit, with a currency' }, { status: 400 });
+    }
+
+    if (!DURATIONS.includes(duration) || (duration === 'repeating' && !durationInMonths)) {
+      return NextResponse.json({ error: 'Invalid duration' }, { status: 400 });
+    }
+
+    const expiresAtDate = expiresAt ? new Date(expiresAt) : null;
+    if (!expiresAtDate || isNaN(expiresAtDate.getTime()) || expiresAtDate <= new Date()) {
+      return NextResponse.json({ error: 'A future expiresAt date is required' }, { status: 400 });
+    }
+
+    const expiresAtSeconds = Math.floor(expiresAtDate.getTime() / 1000);
+
+    const coupon = await stripe.coupons.create({
+      name: name || code,
+      ...(percentOff ? { percent_off: percentOff } : { amount_off: amountOff, currency }),
+      duration,
+      ...(duration === 'repeating' ? { duration_in_months: durationInMonths } : {}),
+      redeem_by: expiresAtSeconds,
+      ...(productIds?.length ? { applies_to: { products: productIds } } : {}),
+      metadata: { created_by: user.id }
+    });
+
+    const promotionCode = await stripe.promotionCodes.create({
+      coupon: coupon.id,
+      code,
+      expires_at: expiresAtSeconds,
+      ...(maxRedemptions ? { max_redemptions: maxRedemptions } : {}),
+      metadata: { created_by: user.id }
+    });
+
+    console.log('Created promotion code:', { admin: user.id, code: promotionCode.code, coupon: coupon.id });
+
+    return NextResponse.json({
+      id: promotionCode.id,
+      code: promotionCode.code,
+      expiresAt: expiresAtDate.toISOString(),
+      maxRedemptions: promotionCode.max_redemptions,
+      discount: describeCoupon(coupon)
+    });
+  } catch (error) {
+    console.error('Promotion code creation failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create promotion code',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
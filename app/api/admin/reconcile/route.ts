@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance, isAdmin } from '@/utils/auth';
+import { runReconciliation } from '@/utils/reconciliation';
+
+/**
+ * Run the Stripe reconciliation job on demand. Pass `dryRun: true` to get
+ * the report without writing any fixes. If a run is already in progress
+ * this continues it instead, and a run that doesn't finish within the
+ * request is finished by the cron.
+ */
+export const POST = withCors(withRateLimit(RATE_LIMITS.adminReconcile, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { dryRun = false } = await request.json().catch(() => ({}));
+
+    const report = await runReconciliation({ trigger: 'admin', triggeredBy: user.id, dryRun: !!dryRun });
+
+    if (!report) {
+      return NextResponse.json({ error: 'A reconciliation run is already in progress' }, { status: 409 });
+    }
+
+    return NextResponse.json({ status: 'success', report });
+  } catch (error) {
+    console.error('Reconciliation failed:', error);
+    return NextResponse.json({
+      error: 'Failed to reconcile subscriptions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}));
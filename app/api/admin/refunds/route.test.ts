@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  hasRequiredAssurance: vi.fn(),
+  refundInvoice: vi.fn(),
+  startAdminAction: vi.fn(),
+  completeAdminAction: vi.fn(),
+}));
+
+vi.mock('@/utils/stripe', () => ({ stripe: {} }));
+vi.mock('@/utils/rate-limit', () => ({
+  withRateLimit: (_config: unknown, handler: unknown) => handler,
+}));
+vi.mock('@/utils/auth', () => ({
+  getAuthenticatedUser: async () => ({ id: 'admin_1', app_metadata: { role: 'admin' } }),
+  isAdmin: () => true,
+  hasRequiredAssurance: mocks.hasRequiredAssurance,
+}));
+vi.mock('@/utils/admin-audit', () => ({
+  startAdminAction: mocks.startAdminAction,
+  completeAdminAction: mocks.completeAdminAction,
+}));
+vi.mock('@/utils/billing-adjustments', async importOriginal => ({
+  ...await importOriginal<typeof import('@/utils/billing-adjustments')>(),
+  refundInvoice: mocks.refundInvoice,
+}));
+
+import { POST } from './route';
+
+function refund(body: Record<string, unknown>) {
+  return POST(new NextRequest('http://localhost:3000/api/admin/refunds', {
+    method: 'POST',
+    body: JSON.stringify({ invoiceId: 'in_1', amount: 500, reason: 'Goodwill', ...body }),
+  }));
+}
+
+describe('POST /api/admin/refunds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.hasRequiredAssurance.mockResolvedValue(true);
+    mocks.startAdminAction.mockResolvedValue('audit_1');
+    mocks.refundInvoice.mockImplementation(async () => ({
+      ok: true,
+      result: { id: `re_${mocks.refundInvoice.mock.calls.length}`, amount: 500, currency: 'usd', status: 'succeeded' },
+    }));
+  });
+
+  it('requires a two-factor verified session once the admin has enrolled MFA', async () => {
+    mocks.hasRequiredAssurance.mockResolvedValue(false);
+
+    const response = await refund({ idempotencyKey: 'submission-1' });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'mfa_required' });
+    expect(mocks.startAdminAction).not.toHaveBeenCalled();
+    expect(mocks.refundInvoice).not.toHaveBeenCalled();
+  });
+
+  it('rejects a refund without an idempotency key', async () => {
+    const response = await refund({});
+
+    expect(response.status).toBe(400);
+    expect(mocks.startAdminAction).not.toHaveBeenCalled();
+    expect(mocks.refundInvoice).not.toHaveBeenCalled();
+  });
+
+  it('gives two identical refunds from separate submissions their own Stripe keys', async () => {
+    await refund({ idempotencyKey: 'submission-1' });
+    await refund({ idempotencyKey: 'submission-2' });
+
+    const keys = mocks.refundInvoice.mock.calls.map(([, options]) => options.idempotencyKey);
+    expect(keys).toEqual(['refund-submission-1', 'refund-submission-2']);
+  });
+});
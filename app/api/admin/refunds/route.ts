@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance, isAdmin } from '@/utils/auth';
+import { completeAdminAction, startAdminAction } from '@/utils/admin-audit';
+import { getAdjustmentIdempotencyKey, REFUND_REASONS, refundInvoice } from '@/utils/billing-adjustments';
+
+/**
+ * Refund a paid invoice, fully or partially. `amount` is in the smallest
+ * currency unit and defaults to everything not yet refunded. The required
+ * `idempotencyKey` identifies one submission; resending it returns the same refund.
+ */
+export const POST = withCors(withRateLimit(RATE_LIMITS.adminBilling, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { invoiceId, amount, reason, stripeReason, idempotencyKey } = await request.json();
+
+    if (!invoiceId) {
+      return NextResponse.json({ error: 'Invoice ID is required' }, { status: 400 });
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json({ error: 'A reason is required' }, { status: 400 });
+    }
+
+    if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+      return NextResponse.json({ error: 'amount must be a positive amount in the smallest currency unit' }, { status: 400 });
+    }
+
+    if (stripeReason && !REFUND_REASONS.includes(stripeReason)) {
+      return NextResponse.json({ error: 'Invalid stripeReason' }, { status: 400 });
+    }
+
+    const stripeIdempotencyKey = getAdjustmentIdempotencyKey('refund', idempotencyKey);
+
+    if (!stripeIdempotencyKey) {
+      return NextResponse.json({ error: 'An idempotencyKey is required, generate one per submission' }, { status: 400 });
+    }
+
+    const requested = { amount: amount ?? null, stripeReason: stripeReason ?? null, idempotencyKey: stripeIdempotencyKey };
+
+    // Written first so a refund can't go out without an audit record
+    const auditId = await startAdminAction({
+      adminUserId: user.id,
+      action: 'refund.created',
+      targetType: 'invoice',
+      targetId: invoiceId,
+      reason: reason.trim(),
+      details: requested
+    });
+
+    let refund: Awaited<ReturnType<typeof refundInvoice>>;
+    try {
+      refund = await refundInvoice(invoiceId, {
+        amount,
+        reason: reason.trim(),
+        stripeReason,
+        adminUserId: user.id,
+        idempotencyKey: stripeIdempotencyKey
+      });
+    } catch (error) {
+      await completeAdminAction(auditId, 'failed', {
+        ...requested,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+
+    if (!refund.ok) {
+      await completeAdminAction(auditId, 'failed', { ...requested, error: refund.reason });
+      return NextResponse.json({ error: refund.reason }, { status: 400 });
+    }
+
+    await completeAdminAction(auditId, 'succeeded', {
+      ...requested,
+      refundId: refund.result.id,
+      amount: refund.result.amount,
+      currency: refund.result.currency
+    });
+
+    console.log('Refund issued:', { admin: user.id, invoiceId, refundId: refund.result.id });
+
+    return NextResponse.json({
+      status: 'success',
+      refundId: refund.result.id,
+      amount: refund.result.amount,
+      currency: refund.result.currency,
+      refundStatus: refund.result.status
+    });
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeIdempotencyError) {
+      return NextResponse.json({ error: 'This idempotency key was already used for a different refund' }, { status: 409 });
+    }
+
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Refund failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to refund invoice',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance, isAdmin } from '@/utils/auth';
+import { replayStripeEvent, replayStripeEvents, StripeEventStatus } from '@/utils/stripe-events';
+
+const REPLAYABLE_STATUSES: StripeEventStatus[] = ['received', 'processing', 'processed', 'failed'];
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.adminReplay, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { eventId, from, to, statuses } = await request.json();
+
+    if (eventId) {
+      const result = await replayStripeEvent(eventId);
+
+      if (!result) {
+        return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({ status: 'success', results: [result] });
+    }
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : new Date();
+
+    if (!fromDate || isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return NextResponse.json(
+        { error: 'Either an event ID or a valid from/to range is required' },
+        { status: 400 }
+      );
+    }
+
+    if (statuses && (!Array.isArray(statuses) || statuses.some((s: string) => !REPLAYABLE_STATUSES.includes(s as StripeEventStatus)))) {
+      return NextResponse.json({ error: 'Invalid statuses filter' }, { status: 400 });
+    }
+
+    console.log('Replaying Stripe events:', { admin: user.id, from: fromDate, to: toDate, statuses });
+    const results = await replayStripeEvents({ from: fromDate, to: toDate, statuses });
+
+    return NextResponse.json({
+      status: 'success',
+      replayed: results.length,
+      failed: results.filter(r => r.status === 'failed').length,
+      results
+    });
+  } catch (error) {
+    console.error('Stripe event replay failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to replay events',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { isCronRequest } from '@/utils/auth';
+import { runScheduledReconciliation } from '@/utils/reconciliation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await runScheduledReconciliation();
+
+    if (!report) {
+      return NextResponse.json({ status: 'idle' });
+    }
+
+    if (report.status === 'completed' && report.discrepancyCount) {
+      console.warn('Reconciliation found discrepancies:', {
+        id: report.id,
+        discrepancies: report.discrepancyCount,
+        fixed: report.fixedCount
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Reconciliation failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile subscriptions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
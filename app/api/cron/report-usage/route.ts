@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { isCronRequest } from '@/utils/auth';
+import { reportUsage } from '@/utils/usage';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await reportUsage();
+
+    if (result.reported || result.failed) {
+      console.log('Usage report finished:', result);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Usage report failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to report usage',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock } from '@/test/supabase-mock';
+
+const mocks = vi.hoisted(() => ({
+  generateCode: vi.fn(),
+  recordUsage: vi.fn(),
+  supabase: { current: null as ReturnType<typeof createSupabaseMock> | null },
+}));
+
+vi.mock('@/utils/supabase-admin', () => ({
+  get supabaseAdmin() {
+    return mocks.supabase.current!.supabase;
+  },
+}));
+vi.mock('@/utils/rate-limit', () => ({
+  withRateLimit: (_config: unknown, handler: unknown) => handler,
+}));
+vi.mock('@/utils/auth', () => ({
+  getAuthenticatedUser: async () => ({ id: 'user_1' }),
+}));
+vi.mock('@/utils/code-generation', () => ({ generateCode: mocks.generateCode }));
+vi.mock('@/utils/usage', () => ({ recordUsage: mocks.recordUsage }));
+
+import { POST } from './route';
+
+function generate(feedback: string) {
+  return POST(new NextRequest('http://localhost:3000/api/demo/generate', {
+    method: 'POST',
+    body: JSON.stringify({ feedback }),
+  }));
+}
+
+describe('POST /api/demo/generate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.supabase.current = createSupabaseMock(query =>
+      query.table === 'subscriptions' ? { data: { id: 'sub_row_1' } } : undefined
+    );
+  });
+
+  it('records code_generation usage for a successful generation', async () => {
+    mocks.generateCode.mockResolvedValue('export const fixed = true;');
+    mocks.recordUsage.mockResolvedValue({ id: 'usage_1' });
+
+    const response = await generate('The save button does nothing');
+
+    expect(await response.json()).toEqual({ code: 'export const fixed = true;', billed: true });
+    expect(mocks.recordUsage).toHaveBeenCalledWith('user_1', 'code_generation');
+  });
+
+  it('reports billed: false when the plan has no usage billing', async () => {
+    mocks.generateCode.mockResolvedValue('export const fixed = true;');
+    mocks.recordUsage.mockResolvedValue(null);
+
+    const response = await generate('The save button does nothing');
+
+    expect((await response.json()).billed).toBe(false);
+  });
+
+  it('does not bill a failed generation', async () => {
+    mocks.generateCode.mockRejectedValue(new Error('OpenAI request failed with 503'));
+
+    const response = await generate('The save button does nothing');
+
+    expect(response.status).toBe(500);
+    expect(mocks.recordUsage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser } from '@/utils/auth';
+import { generateCode } from '@/utils/code-generation';
+import { recordUsage } from '@/utils/usage';
+
+const MAX_FEEDBACK_LENGTH = 2000;
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.demoGenerate, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { feedback } = await request.json();
+
+    if (typeof feedback !== 'string' || !feedback.trim() || feedback.length > MAX_FEEDBACK_LENGTH) {
+      return NextResponse.json(
+        { error: `Feedback is required and must be under ${MAX_FEEDBACK_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { data: subscription, error } = await supabaseAdmin
+      .from('subscriptions')
+      .select('id')
+      .eq('user_id', user.id)
+      .in('status', ['active', 'trialing', 'past_due'])
+      .eq('is_paused', false)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'An active subscription is required' }, { status: 403 });
+    }
+
+    const code = await generateCode(feedback.trim());
+
+    // Only a successful generation is billed, null means the plan has no usage billing
+    const usage = await recordUsage(user.id, 'code_generation');
+
+    return NextResponse.json({ code, billed: !!usage });
+  } catch (error) {
+    console.error('Code generation failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate code',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
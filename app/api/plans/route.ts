@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { withCors } from '@/utils/cors';
+import { getPlanCatalog } from '@/utils/plan-catalog';
+
+// Public: the landing page pricing section renders before sign in
+export const GET = withCors(async function GET() {
+  try {
+    const plans = await getPlanCatalog();
+
+    return NextResponse.json(
+      { plans },
+      { headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=60' } }
+    );
+  } catch (error) {
+    console.error('Failed to load plan catalog:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load plans',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { getBillingProfile, syncBillingProfile, updateBillingProfile } from '@/utils/tax';
+import { getStripeCustomerId } from '@/utils/stripe-customer';
+import type { BillingAddress } from '@/types/BillingTypes';
+
+function optionalString(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export const GET = withCors(withRateLimit(RATE_LIMITS.billingRead, async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const profile = await getBillingProfile(user.id);
+    if (profile) {
+      return NextResponse.json({ profile });
+    }
+
+    // Customers from before billing profiles existed are synced on first view
+    const customerId = await getStripeCustomerId(user.id);
+
+    return NextResponse.json({
+      profile: customerId ? await syncBillingProfile(customerId) : null
+    });
+  } catch (error) {
+    console.error('Loading billing profile failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load billing details',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
+
+export const PUT = withCors(withRateLimit(RATE_LIMITS.billingWrite, async function PUT(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { name, address = {}, taxId } = await request.json();
+
+    const billingAddress: BillingAddress = {
+      line1: optionalString(address.line1),
+      line2: optionalString(address.line2),
+      city: optionalString(address.city),
+      state: optionalString(address.state),
+      postalCode: optionalString(address.postalCode),
+      country: optionalString(address.country)?.toUpperCase() ?? null,
+    };
+
+    if (billingAddress.country && !/^[A-Z]{2}$/.test(billingAddress.country)) {
+      return NextResponse.json(
+        { error: 'Country must be a two-letter ISO code, e.g. DE' },
+        { status: 400 }
+      );
+    }
+
+    const taxIdType = optionalString(taxId?.type);
+    const taxIdValue = optionalString(taxId?.value);
+
+    if (!!taxIdType !== !!taxIdValue) {
+      return NextResponse.json(
+        { error: 'Tax ID type and number are both required' },
+        { status: 400 }
+      );
+    }
+
+    const customerId = await getStripeCustomerId(user.id);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'Billing details can be added once you subscribe' },
+        { status: 404 }
+      );
+    }
+
+    const profile = await updateBillingProfile(customerId, {
+      name: optionalString(name),
+      address: billingAddress,
+      taxId: taxIdType && taxIdValue ? { type: taxIdType, value: taxIdValue } : null,
+    });
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    // Stripe rejects malformed tax IDs and addresses it can't use for tax
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Updating billing profile failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update billing details',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
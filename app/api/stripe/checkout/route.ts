@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser } from '@/utils/auth';
+import { validatePromotionCode } from '@/utils/promo-codes';
+import { isCatalogPrice, priceSupportsCurrency } from '@/utils/plan-catalog';
+import { AUTOMATIC_TAX_ENABLED } from '@/utils/tax';
+import { getOrCreateStripeCustomer } from '@/utils/stripe-customer';
+import { hasUsedTrial } from '@/utils/trials';
+import { TRIAL_DAYS, TRIAL_MODE, isTrialEnabled } from '@/utils/trial-config';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Optional metered price billed per usage event on top of the plan
+const METERED_PRICE_ID = process.env.STRIPE_METERED_PRICE_ID;
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.checkout, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { priceId, currency: requestedCurrency, promotionCode } = await request.json();
+
+    if (!priceId) {
+      return NextResponse.json({ error: 'Price ID is required' }, { status: 400 });
+    }
+
+    // Only active recurring prices of a listed plan can start a subscription
+    if (!await isCatalogPrice(priceId)) {
+      return NextResponse.json({ error: 'Invalid price' }, { status: 400 });
+    }
+
+    const price = await stripe.prices.retrieve(priceId, { expand: ['currency_options'] });
+    if (!price.active || price.type !== 'recurring') {
+      return NextResponse.json({ error: 'Invalid price' }, { status: 400 });
+    }
+
+    // Re-check the code against the chosen price, the client may have validated it without one
+    let promotionCodeId: string | undefined;
+    if (promotionCode) {
+      const promo = await validatePromotionCode(promotionCode, priceId);
+
+      if (!promo.valid) {
+        return NextResponse.json({ error: promo.reason }, { status: 400 });
+      }
+
+      promotionCodeId = promo.promotionCode.id;
+    }
+
+    // Any subscription Stripe still bills (or will resume billing) blocks a second one
+    const { data: existingSubscriptions, error: subError } = await supabaseAdmin
+      .from('subscriptions')
+      .select('status')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (subError) throw subError;
+
+    if (existingSubscriptions?.some(sub => ['active', 'trialing', 'past_due', 'unpaid', 'paused'].includes(sub.status))) {
+      return NextResponse.json(
+        { error: 'You already have an active subscription' },
+        { status: 409 }
+      );
+    }
+
+    // Always check out as the user's one linked customer
+    const customerId = await getOrCreateStripeCustomer(user);
+    const customer = await stripe.customers.retrieve(customerId);
+    // Stripe fixes a customer's currency after their first invoice
+    const customerCurrency = customer.deleted ? null : customer.currency ?? null;
+
+    const currency = (
+      customerCurrency || (typeof requestedCurrency === 'string' ? requestedCurrency : null) || price.currency
+    ).toLowerCase();
+
+    if (!priceSupportsCurrency(price, currency)) {
+      return NextResponse.json(
+        { error: `This plan isn't available in ${currency.toUpperCase()}` },
+        { status: 400 }
+      );
+    }
+
+    // Every line item has to be charged in the same currency
+    const meteredPrice = METERED_PRICE_ID
+      ? await stripe.prices.retrieve(METERED_PRICE_ID, { expand: ['currency_options'] })
+      : null;
+
+    if (meteredPrice && !priceSupportsCurrency(meteredPrice, currency)) {
+      console.warn(`Metered price ${meteredPrice.id} has no ${currency} option, usage won't be billed`);
+    }
+
+    const offerTrial = isTrialEnabled && !await hasUsedTrial(user.id);
+
+    const session = await stripe.checkout.sessions.create({
+      ui_mode: 'embedded',
+      mode: 'subscription',
+      customer: customerId,
+      client_reference_id: user.id,
+      currency,
+      line_items: [
+        { price: priceId, quantity: 1 },
+        // Metered prices are billed on reported usage, so they take no quantity
+        ...(meteredPrice && priceSupportsCurrency(meteredPrice, currency) ? [{ price: meteredPrice.id }] : [])
+      ],
+      ...(promotionCodeId ? { discounts: [{ promotion_code: promotionCodeId }] } : {}),
+      metadata: { user_id: user.id },
+      subscription_data: {
+        metadata: { user_id: user.id },
+        ...(offerTrial ? {
+          trial_period_days: TRIAL_DAYS,
+          // Without a card on file the subscription pauses instead of failing to charge
+          trial_settings: { end_behavior: { missing_payment_method: 'pause' } }
+        } : {})
+      },
+      ...(offerTrial && TRIAL_MODE === 'no_card' ? { payment_method_collection: 'if_required' } : {}),
+      // Stripe Tax needs the billing address, businesses can add a VAT ID for reverse charge
+      billing_address_collection: 'required',
+      tax_id_collection: { enabled: true },
+      customer_update: { address: 'auto', name: 'auto' },
+      ...(AUTOMATIC_TAX_ENABLED ? { automatic_tax: { enabled: true } } : {}),
+      // Syncs the new subscription before the dashboard checks for access
+      return_url: `${process.env.NEXT_PUBLIC_APP_URL}/onboarding/success?session_id={CHECKOUT_SESSION_ID}`,
+    });
+
+    return NextResponse.json({ clientSecret: session.client_secret });
+  } catch (error) {
+    console.error('Checkout session creation failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create checkout session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser } from '@/utils/auth';
+import { getStripeCustomerId } from '@/utils/stripe-customer';
+import { getTaxBreakdown } from '@/utils/tax';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+export const GET = withCors(withRateLimit(RATE_LIMITS.billingRead, async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startingAfter = searchParams.get('starting_after') || undefined;
+    const limit = Math.min(
+      Math.max(Number(searchParams.get('limit')) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const customerId = await getStripeCustomerId(user.id);
+
+    // No Stripe customer yet means nothing has ever been billed
+    if (!customerId) {
+      return NextResponse.json({ invoices: [], nextCursor: null, hasMore: false });
+    }
+
+    const invoices = await stripe.invoices.list({
+      customer: customerId,
+      limit,
+      starting_after: startingAfter,
+      // Tax rate names and percentages for the breakdown
+      expand: ['data.total_tax_amounts.tax_rate'],
+    });
+
+    const visibleInvoices = invoices.data.filter(invoice => invoice.status !== 'draft');
+
+    return NextResponse.json({
+      invoices: await Promise.all(visibleInvoices.map(async invoice => ({
+        id: invoice.id,
+        number: invoice.number,
+        created: new Date(invoice.created * 1000).toISOString(),
+        amount: invoice.total,
+        subtotal: invoice.subtotal,
+        tax: invoice.tax ?? 0,
+        taxBreakdown: await getTaxBreakdown(invoice),
+        amountPaid: invoice.amount_paid,
+        currency: invoice.currency,
+        status: invoice.status,
+        hostedInvoiceUrl: invoice.hosted_invoice_url,
+        invoicePdf: invoice.invoice_pdf,
+      }))),
+      // Cursor for the next page is the last invoice Stripe returned, drafts included
+      nextCursor: invoices.data[invoices.data.length - 1]?.id ?? null,
+      hasMore: invoices.has_more,
+    });
+  } catch (error) {
+    console.error('Invoice list failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load invoices',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { authorizeSubscription, getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { isSubscriptionPaused, pauseSubscription } from '@/utils/subscription-pause';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.subscriptionChange, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { subscriptionId, resumesAt } = await request.json();
+
+    if (!subscriptionId) {
+      return NextResponse.json(
+        { error: 'Subscription ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Without a date the subscription stays paused until the customer resumes it
+    const resumesAtDate = resumesAt ? new Date(resumesAt) : undefined;
+    if (resumesAtDate && (isNaN(resumesAtDate.getTime()) || resumesAtDate <= new Date())) {
+      return NextResponse.json(
+        { error: 'Resume date must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSubscription(user.id, subscriptionId);
+
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const currentSubscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+    if (isSubscriptionPaused(currentSubscription)) {
+      return NextResponse.json({ error: 'Subscription is already paused' }, { status: 409 });
+    }
+
+    if (!['active', 'trialing'].includes(currentSubscription.status)) {
+      return NextResponse.json(
+        { error: 'Subscription cannot be paused in its current state' },
+        { status: 400 }
+      );
+    }
+
+    const subscription = await pauseSubscription(subscriptionId, resumesAtDate);
+
+    return NextResponse.json({
+      status: 'success',
+      resumesAt: subscription.pause_collection?.resumes_at
+        ? new Date(subscription.pause_collection.resumes_at * 1000).toISOString()
+        : null
+    });
+  } catch (error) {
+    console.error('Subscription pause failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to pause subscription',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { getStripeCustomerId } from '@/utils/stripe-customer';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.billingWrite, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const customerId = await getStripeCustomerId(user.id);
+
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'No billing account found' },
+        { status: 404 }
+      );
+    }
+
+    // Changes made in the portal come back to us through the subscription and invoice webhooks
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${process.env.NEXT_PUBLIC_APP_URL}/profile`,
+    });
+
+    return NextResponse.json({ url: session.url });
+  } catch (error) {
+    console.error('Billing portal session creation failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to open billing portal',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser } from '@/utils/auth';
+import { validatePromotionCode } from '@/utils/promo-codes';
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.promoValidate, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { code, priceId } = await request.json();
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json({ error: 'Promo code is required' }, { status: 400 });
+    }
+
+    const result = await validatePromotionCode(code, priceId);
+
+    if (!result.valid) {
+      return NextResponse.json({ valid: false, error: result.reason }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      valid: true,
+      code: result.promotionCode.code,
+      discount: result.discount
+    });
+  } catch (error) {
+    console.error('Promo code validation failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to validate promo code',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -3,11 +3,24 @@ import type { NextRequest } from 'next/server';
 import Stripe from 'stripe';
 import { supabaseAdmin } from '@/utils/supabase-admin';
 import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { authorizeSubscription, getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
 
-export const POST = withCors(async function POST(request: NextRequest) {
+export const POST = withCors(withRateLimit(RATE_LIMITS.subscriptionChange, async function POST(request: NextRequest) {
   try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
     const { subscriptionId } = await request.json();
 
     if (!subscriptionId) {
@@ -17,6 +30,12 @@ export const POST = withCors(async function POST(request: NextRequest) {
       );
     }
 
+    const access = await authorizeSubscription(user.id, subscriptionId);
+
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
     const subscription = await stripe.subscriptions.update(subscriptionId, {
       cancel_at_period_end: false
     });
@@ -37,4 +56,4 @@ export const POST = withCors(async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}); 
\ No newline at end of file
+})); 
\ No newline at end of file
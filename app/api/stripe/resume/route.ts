@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { authorizeSubscription, getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { isSubscriptionPaused, resumeSubscription } from '@/utils/subscription-pause';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.subscriptionChange, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { subscriptionId } = await request.json();
+
+    if (!subscriptionId) {
+      return NextResponse.json(
+        { error: 'Subscription ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSubscription(user.id, subscriptionId);
+
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const currentSubscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+    // Nothing to do, e.g. the auto-resume date already passed
+    if (!isSubscriptionPaused(currentSubscription)) {
+      return NextResponse.json({ status: 'success', alreadyActive: true });
+    }
+
+    const subscription = await resumeSubscription(currentSubscription);
+
+    return NextResponse.json({ status: 'success', subscriptionStatus: subscription.status });
+  } catch (error) {
+    console.error('Subscription resume failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to resume subscription',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { authorizeSubscription, getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { MAX_SEATS, getSeatCount, getSeatUsage, updateSeatCount } from '@/utils/seats';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.subscriptionChange, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { subscriptionId, seats } = await request.json();
+
+    if (!subscriptionId || !Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS) {
+      return NextResponse.json(
+        { error: `Subscription ID and a seat count between 1 and ${MAX_SEATS} are required` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSubscription(user.id, subscriptionId);
+
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const usage = await getSeatUsage(access.subscription.id, access.subscription.seats);
+
+    if (seats < usage.used) {
+      return NextResponse.json(
+        { error: `${usage.used} seats are in use. Remove team members before reducing seats.` },
+        { status: 409 }
+      );
+    }
+
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+    if (!['active', 'trialing'].includes(subscription.status) || subscription.pause_collection) {
+      return NextResponse.json(
+        { error: 'Seats cannot be changed in the subscription\'s current state' },
+        { status: 400 }
+      );
+    }
+
+    // The schedule would reset the quantity when its next phase starts
+    if (subscription.schedule) {
+      return NextResponse.json(
+        { error: 'Cancel the scheduled plan change before changing seats' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await updateSeatCount(subscription, seats);
+
+    return NextResponse.json({
+      status: 'success',
+      seats: getSeatCount(updated),
+      used: usage.used
+    });
+  } catch (error) {
+    console.error('Seat update failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update seats',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
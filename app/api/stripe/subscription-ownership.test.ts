@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, filterValue } from '@/test/supabase-mock';
+
+const mocks = vi.hoisted(() => {
+  const stripeCall = vi.fn();
+
+  // Any Stripe call fails the test, ownership is checked before touching Stripe
+  const stripe = new Proxy({}, {
+    get: (_, resource) => new Proxy({}, {
+      get: (__, method) => (...args: unknown[]) => {
+        stripeCall(`${String(resource)}.${String(method)}`, ...args);
+        throw new Error('Unexpected Stripe call');
+      },
+    }),
+  });
+
+  return {
+    stripe,
+    stripeCall,
+    user: { id: 'user_1', factors: [] },
+    supabase: { current: null as ReturnType<typeof createSupabaseMock> | null },
+  };
+});
+
+vi.mock('stripe', async importOriginal => {
+  const actual = await importOriginal<typeof import('stripe')>();
+  const MockStripe = Object.assign(function MockStripe() {
+    return mocks.stripe;
+  }, { errors: actual.default.errors });
+  return { default: MockStripe };
+});
+vi.mock('@/utils/stripe', () => ({ stripe: mocks.stripe }));
+vi.mock('@/utils/supabase-admin', () => ({
+  get supabaseAdmin() {
+    return mocks.supabase.current!.supabase;
+  },
+}));
+vi.mock('@/utils/rate-limit', () => ({
+  withRateLimit: (_config: unknown, handler: unknown) => handler,
+}));
+vi.mock('@/utils/auth', async importOriginal => ({
+  ...await importOriginal<typeof import('@/utils/auth')>(),
+  getAuthenticatedUser: async () => mocks.user,
+  hasRequiredAssurance: async () => true,
+}));
+
+import { POST as cancel } from './cancel/route';
+import { POST as cancelDowngrade } from './cancel-downgrade/route';
+import { POST as pause } from './pause/route';
+import { POST as reactivate } from './reactivate/route';
+import { POST as resume } from './resume/route';
+import { POST as seats } from './seats/route';
+import { POST as sync } from './sync/route';
+import { POST as upgrade } from './upgrade/route';
+import { POST as upgradePreview } from './upgrade/preview/route';
+
+type Handler = (request: NextRequest) => Promise<Response>;
+
+const routes: [string, Handler, Record<string, unknown>][] = [
+  ['cancel', cancel, {}],
+  ['cancel-downgrade', cancelDowngrade, {}],
+  ['pause', pause, {}],
+  ['reactivate', reactivate, {}],
+  ['resume', resume, {}],
+  ['seats', seats, { seats: 2 }],
+  ['sync', sync, {}],
+  ['upgrade', upgrade, { newPriceId: 'price_pro' }],
+  ['upgrade/preview', upgradePreview, { newPriceId: 'price_pro' }],
+];
+
+function post(path: string, body: Record<string, unknown>) {
+  return new NextRequest(`http://localhost:3000/api/stripe/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('subscription routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.supabase.current = createSupabaseMock(query => {
+      if (query.table !== 'subscriptions' || query.operation !== 'select') return undefined;
+
+      const subscriptionId = filterValue(query, 'eq', 'stripe_subscription_id');
+      if (subscriptionId === 'sub_other') {
+        return { data: { id: 'row_other', user_id: 'user_2', stripe_subscription_id: 'sub_other', seats: 3 } };
+      }
+      return undefined;
+    });
+  });
+
+  it.each(routes)('%s rejects another user\'s subscription with 403', async (path, handler, body) => {
+    const response = await handler(post(path, { subscriptionId: 'sub_other', ...body }));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Forbidden' });
+    expect(mocks.stripeCall).not.toHaveBeenCalled();
+    expect(mocks.supabase.current!.queries.filter(query => query.operation !== 'select')).toEqual([]);
+  });
+
+  it.each(routes.filter(([path]) => path !== 'sync'))('%s answers 404 for an unknown subscription', async (path, handler, body) => {
+    const response = await handler(post(path, { subscriptionId: 'sub_missing', ...body }));
+
+    expect(response.status).toBe(404);
+    expect(mocks.stripeCall).not.toHaveBeenCalled();
+  });
+});
@@ -1,13 +1,21 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import Stripe from 'stripe';
-import { supabaseAdmin } from '@/utils/supabase-admin';
 import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { authorizeSubscription, getAuthenticatedUser } from '@/utils/auth';
+import { stripe } from '@/utils/stripe';
+import { getStripeCustomerId } from '@/utils/stripe-customer';
+import { syncSubscription } from '@/utils/reconciliation';
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.sync, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
 
-export const POST = withCors(async function POST(request: NextRequest) {
-  try {
     const { subscriptionId } = await request.json();
     
     if (!subscriptionId) {
@@ -15,75 +23,25 @@ export const POST = withCors(async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Subscription ID is required' }, { status: 400 });
     }
 
-    // First check if subscription exists in Supabase
-    const { data: existingSubscription, error: checkError } = await supabaseAdmin
-      .from('subscriptions')
-      .select('*')
-      .eq('stripe_subscription_id', subscriptionId)
-      .single();
+    const access = await authorizeSubscription(user.id, subscriptionId);
 
-    if (checkError && checkError.code !== 'PGRST116') {
-      throw checkError;
+    if (!access.ok && access.status === 403) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
     }
 
-    // If no subscription exists in database, we need to create it
-    if (!existingSubscription) {
-      const stripeSubscription = await stripe.subscriptions.retrieve(subscriptionId);
-      
-      // Get customer details to get user_id
-      const customerResponse = await stripe.customers.retrieve(stripeSubscription.customer as string);
-      
-      if (customerResponse.deleted) {
-        console.error('Customer has been deleted:', stripeSubscription.customer);
-        throw new Error('Invalid customer');
-      }
-
-      const customer = customerResponse as Stripe.Customer;
-      const userId = customer.metadata?.user_id;
+    // Right after checkout the webhook may not have created the row yet, so check Stripe instead
+    if (!access.ok) {
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+      const ownsSubscription = subscription.metadata.user_id === user.id
+        || subscription.customer === await getStripeCustomerId(user.id);
 
-      if (!userId) {
-        console.error('No user_id in customer metadata:', customer.id);
-        throw new Error('No user_id found in customer metadata');
-      }
-
-      // Create new subscription record
-      const { error: insertError } = await supabaseAdmin
-        .from('subscriptions')
-        .insert({
-          user_id: userId,
-          stripe_customer_id: stripeSubscription.customer as string,
-          stripe_subscription_id: subscriptionId,
-          status: stripeSubscription.status,
-          price_id: stripeSubscription.items.data[0]?.price.id,
-          current_period_end: new Date(stripeSubscription.current_period_end * 1000).toISOString(),
-          cancel_at_period_end: stripeSubscription.cancel_at_period_end,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-
-      if (insertError) {
-        console.error('Error creating subscription:', insertError);
-        throw insertError;
-      }
-    } else {
-      // Update existing subscription
-      const stripeSubscription = await stripe.subscriptions.retrieve(subscriptionId);
-      const { error: updateError } = await supabaseAdmin
-        .from('subscriptions')
-        .update({
-          status: stripeSubscription.status,
-          cancel_at_period_end: stripeSubscription.cancel_at_period_end,
-          current_period_end: new Date(stripeSubscription.current_period_end * 1000).toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('stripe_subscription_id', subscriptionId);
-
-      if (updateError) {
-        console.error('Error updating subscription:', updateError);
-        throw updateError;
+      if (!ownsSubscription) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       }
     }
 
+    await syncSubscription(subscriptionId);
+
     return NextResponse.json({ status: 'success' });
   } catch (error) {
     console.error('Subscription sync failed:', error);
@@ -92,7 +50,7 @@ export const POST = withCors(async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}); 
+})); 
 
 // import { NextResponse } from 'next/server';
 // import Stripe from 'stripe';
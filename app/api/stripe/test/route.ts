@@ -2,11 +2,13 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import Stripe from 'stripe';
 import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-export const GET = withCors(async function GET(request: NextRequest) {
+export const GET = withCors(withRateLimit(RATE_LIMITS.stripeTest, async function GET(request: NextRequest) {
   try {
     console.log('Testing Stripe connection...');
     console.log('Stripe key starts with:', process.env.STRIPE_SECRET_KEY?.substring(0, 8) + '...');
@@ -27,4 +29,4 @@ export const GET = withCors(async function GET(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}); 
\ No newline at end of file
+})); 
\ No newline at end of file
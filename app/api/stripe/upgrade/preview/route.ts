@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import Stripe from 'stripe';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { authorizeSubscription, getAuthenticatedUser } from '@/utils/auth';
+import { changesBillingInterval } from '@/utils/subscription-schedules';
+import { getPlanItem } from '@/utils/subscription-items';
+import { isCatalogPrice, priceSupportsCurrency } from '@/utils/plan-catalog';
+import { getAutomaticTaxParams } from '@/utils/tax';
+import { validatePromotionCode } from '@/utils/promo-codes';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.upgradePreview, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { subscriptionId, newPriceId, promotionCode } = await request.json();
+
+    if (!subscriptionId || !newPriceId) {
+      return NextResponse.json({
+        error: 'Subscription ID and new price ID are required'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeSubscription(user.id, subscriptionId);
+
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    const currentItem = getPlanItem(subscription);
+
+    if (!currentItem) {
+      return NextResponse.json({
+        error: 'No subscription items found'
+      }, { status: 400 });
+    }
+
+    if (!await isCatalogPrice(newPriceId)) {
+      return NextResponse.json({ error: 'Invalid price' }, { status: 400 });
+    }
+
+    let promotionCodeId: string | undefined;
+    if (promotionCode) {
+      const promo = await validatePromotionCode(promotionCode, newPriceId);
+
+      if (!promo.valid) {
+        return NextResponse.json({ error: promo.reason }, { status: 400 });
+      }
+
+      promotionCodeId = promo.promotionCode.id;
+    }
+
+    const newPrice = await stripe.prices.retrieve(newPriceId, { expand: ['currency_options'] });
+
+    if (!priceSupportsCurrency(newPrice, subscription.currency)) {
+      return NextResponse.json({
+        error: `This plan isn't available in ${subscription.currency.toUpperCase()}`
+      }, { status: 400 });
+    }
+
+    // Mirrors the upgrade route: an interval switch is invoiced immediately
+    const chargedNow = changesBillingInterval(currentItem.price, newPrice);
+
+    // The upgrade route reuses this date so the charge matches what we showed
+    const prorationDate = Math.floor(Date.now() / 1000);
+
+    const preview = await stripe.invoices.createPreview({
+      customer: subscription.customer as string,
+      subscription: subscriptionId,
+      ...(promotionCodeId ? { discounts: [{ promotion_code: promotionCodeId }] } : {}),
+      // Previews don't inherit the subscription's tax setting
+      ...(await getAutomaticTaxParams(subscription)),
+      subscription_details: {
+        items: [{ id: currentItem.id, price: newPriceId }],
+        proration_behavior: chargedNow ? 'always_invoice' : 'create_prorations',
+        proration_date: prorationDate,
+      },
+    });
+
+    // Positive is a charge for the rest of the period, negative is a credit
+    const prorationAmount = preview.lines.data
+      .filter(line => line.proration)
+      .reduce((total, line) => total + line.amount, 0);
+
+    return NextResponse.json({
+      prorationAmount,
+      nextInvoiceTotal: preview.total,
+      nextInvoiceDate: preview.next_payment_attempt
+        ? new Date(preview.next_payment_attempt * 1000).toISOString()
+        : new Date(subscription.current_period_end * 1000).toISOString(),
+      currency: preview.currency,
+      prorationDate,
+      chargedNow,
+    });
+  } catch (error) {
+    console.error('Upgrade preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview plan change' },
+      { status: 500 }
+    );
+  }
+}));
@@ -3,12 +3,41 @@ import type { NextRequest } from 'next/server';
 import Stripe from 'stripe';
 import { supabaseAdmin } from '@/utils/supabase-admin';
 import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { authorizeSubscription, getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { getDiscountColumns, validatePromotionCode } from '@/utils/promo-codes';
+import { changesBillingInterval, isDowngrade, releaseScheduledChange, scheduleDowngrade } from '@/utils/subscription-schedules';
+import { getPlanItem } from '@/utils/subscription-items';
+import { isCatalogPrice, priceSupportsCurrency } from '@/utils/plan-catalog';
+import { getAutomaticTaxParams } from '@/utils/tax';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
 
-export const POST = withCors(async function POST(request: NextRequest) {
+// How long the proration date from a preview can be used to confirm it
+const PRORATION_PREVIEW_TTL_SECONDS = 15 * 60;
+
+// A client-chosen date in the past would shrink the prorated charge
+function isValidProrationDate(prorationDate: unknown): prorationDate is number {
+  const now = Math.floor(Date.now() / 1000);
+  return Number.isInteger(prorationDate)
+    && (prorationDate as number) <= now
+    && (prorationDate as number) >= now - PRORATION_PREVIEW_TTL_SECONDS;
+}
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.subscriptionChange, async function POST(request: NextRequest) {
   try {
-    const { subscriptionId, newPriceId, prorate = true } = await request.json();
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { subscriptionId, newPriceId, prorationDate, promotionCode } = await request.json();
     
     if (!subscriptionId || !newPriceId) {
       return NextResponse.json({ 
@@ -16,6 +45,12 @@ export const POST = withCors(async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const access = await authorizeSubscription(user.id, subscriptionId);
+
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
     // Get the current subscription from Stripe
     const subscription = await stripe.subscriptions.retrieve(subscriptionId);
     
@@ -25,8 +60,8 @@ export const POST = withCors(async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
-    // Get the current subscription item (assuming single item subscription)
-    const currentItem = subscription.items.data[0];
+    // The plan item, a metered usage item is left untouched
+    const currentItem = getPlanItem(subscription);
     
     if (!currentItem) {
       return NextResponse.json({ 
@@ -34,6 +69,60 @@ export const POST = withCors(async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (prorationDate !== undefined && !isValidProrationDate(prorationDate)) {
+      return NextResponse.json({
+        error: 'This price preview has expired, please review the change again'
+      }, { status: 400 });
+    }
+
+    if (!await isCatalogPrice(newPriceId)) {
+      return NextResponse.json({ error: 'Invalid price' }, { status: 400 });
+    }
+
+    // Get the product details for the new price
+    const price = await stripe.prices.retrieve(newPriceId, {
+      expand: ['product', 'currency_options'],
+    });
+
+    // The subscription keeps billing in the currency it started in
+    if (!priceSupportsCurrency(price, subscription.currency)) {
+      return NextResponse.json({
+        error: `This plan isn't available in ${subscription.currency.toUpperCase()}`
+      }, { status: 400 });
+    }
+
+    let promotionCodeId: string | undefined;
+    if (promotionCode) {
+      const promo = await validatePromotionCode(promotionCode, newPriceId);
+
+      if (!promo.valid) {
+        return NextResponse.json({ error: promo.reason }, { status: 400 });
+      }
+
+      promotionCodeId = promo.promotionCode.id;
+    }
+
+    // Downgrades keep the current plan until the period ends
+    if (isDowngrade(currentItem.price, price)) {
+      const scheduled = await scheduleDowngrade(subscription, price, promotionCodeId);
+
+      return NextResponse.json({
+        success: true,
+        scheduled: true,
+        productName: scheduled.productName,
+        effectiveDate: scheduled.changeAt,
+      });
+    }
+
+    // An upgrade replaces any downgrade that was waiting for period end
+    if (subscription.schedule) {
+      await releaseScheduledChange(subscription);
+    }
+
+    // A new interval starts a new billing period right away, so bill the
+    // prorated credit and the new period now instead of at the next renewal
+    const switchesInterval = changesBillingInterval(currentItem.price, price);
+
     // Update the subscription with the new price
     const updatedSubscription = await stripe.subscriptions.update(subscriptionId, {
       items: [
@@ -42,23 +131,27 @@ export const POST = withCors(async function POST(request: NextRequest) {
           price: newPriceId,
         },
       ],
-      proration_behavior: prorate ? 'create_prorations' : 'none',
+      // Always prorated, the client doesn't get to skip the charge for the rest of the period
+      proration_behavior: switchesInterval ? 'always_invoice' : 'create_prorations',
+      // Match the amount the user confirmed in the preview
+      ...(prorationDate ? { proration_date: prorationDate } : {}),
+      // Replaces any discount already on the subscription
+      ...(promotionCodeId ? { discounts: [{ promotion_code: promotionCodeId }] } : {}),
+      ...(await getAutomaticTaxParams(subscription)),
       // Optionally expand the latest invoice to get prorated amounts
       expand: ['latest_invoice'],
     });
 
-    // Get the product details for the new price
-    const price = await stripe.prices.retrieve(newPriceId, {
-      expand: ['product'],
-    });
-
     // Update the subscription in Supabase
     const { error: updateError } = await supabaseAdmin
       .from('subscriptions')
       .update({
         status: updatedSubscription.status,
         current_period_end: new Date(updatedSubscription.current_period_end * 1000).toISOString(),
+        price_id: newPriceId,
         product_name: (price.product as Stripe.Product).name,
+        product_id: (price.product as Stripe.Product).id,
+        ...(await getDiscountColumns(updatedSubscription)),
         updated_at: new Date().toISOString(),
       })
       .eq('stripe_subscription_id', subscriptionId);
@@ -73,6 +166,7 @@ export const POST = withCors(async function POST(request: NextRequest) {
       subscription: updatedSubscription,
       prorationAmount: updatedSubscription.latest_invoice ? 
         (updatedSubscription.latest_invoice as Stripe.Invoice).amount_due : 0,
+      currency: updatedSubscription.currency,
     });
 
   } catch (error) {
@@ -82,4 +176,4 @@ export const POST = withCors(async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { getOwnedTeamSubscription, getSeatUsage } from '@/utils/seats';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const GET = withCors(withRateLimit(RATE_LIMITS.teamMembers, async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const subscription = await getOwnedTeamSubscription(user.id);
+
+    if (!subscription) {
+      return NextResponse.json({ members: [], seats: 0, used: 0 });
+    }
+
+    const { data: members, error } = await supabaseAdmin
+      .from('team_members')
+      .select('id, email, user_id, created_at')
+      .eq('subscription_id', subscription.id)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      members,
+      seats: subscription.seats,
+      used: (members?.length ?? 0) + 1
+    });
+  } catch (error) {
+    console.error('Loading team members failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load team members',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = withCors(withRateLimit(RATE_LIMITS.teamMembers, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const { email } = await request.json();
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+
+    if (normalizedEmail === user.email?.toLowerCase()) {
+      return NextResponse.json({ error: 'You already have a seat on this team' }, { status: 400 });
+    }
+
+    const subscription = await getOwnedTeamSubscription(user.id);
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'An active subscription is required' }, { status: 403 });
+    }
+
+    // Link the member to an existing account, if they have one
+    const { data: existingUser } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('email', normalizedEmail)
+      .maybeSingle();
+
+    // The seat check and insert run in one transaction, see add_team_member
+    const { data: member, error } = await supabaseAdmin
+      .rpc('add_team_member', {
+        p_subscription_id: subscription.id,
+        p_owner_user_id: user.id,
+        p_email: normalizedEmail,
+        p_user_id: existingUser?.id ?? null
+      })
+      .select('id, email, user_id, created_at')
+      .single();
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'This person is already on your team' }, { status: 409 });
+    }
+
+    if (error?.message === 'seat_limit_reached') {
+      const usage = await getSeatUsage(subscription.id, subscription.seats);
+      return NextResponse.json(
+        { error: 'All seats are in use. Add seats to invite more members.', ...usage },
+        { status: 409 }
+      );
+    }
+
+    if (error) throw error;
+
+    const usage = await getSeatUsage(subscription.id, subscription.seats);
+    return NextResponse.json({ member, ...usage });
+  } catch (error) {
+    console.error('Adding team member failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add team member',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
+
+export const DELETE = withCors(withRateLimit(RATE_LIMITS.teamMembers, async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const memberId = new URL(request.url).searchParams.get('id');
+
+    if (!memberId) {
+      return NextResponse.json({ error: 'Member ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('team_members')
+      .delete()
+      .eq('id', memberId)
+      .eq('owner_user_id', user.id)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data?.length) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ status: 'success' });
+  } catch (error) {
+    console.error('Removing team member failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to remove team member',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
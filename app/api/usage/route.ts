@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser } from '@/utils/auth';
+import { getCurrentUsage } from '@/utils/usage';
+
+export const GET = withCors(withRateLimit(RATE_LIMITS.usage, async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // null when the user's subscription has no usage billing
+    const usage = await getCurrentUsage(user.id);
+
+    return NextResponse.json({ usage });
+  } catch (error) {
+    console.error('Loading usage failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load usage',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock } from '@/test/supabase-mock';
+
+const mocks = vi.hoisted(() => ({
+  cancelSubscription: vi.fn(),
+  user: { id: 'user_1', factors: [] },
+  supabase: { current: null as ReturnType<typeof createSupabaseMock> | null },
+}));
+
+vi.mock('stripe', () => ({
+  default: function MockStripe() {
+    return { subscriptions: { cancel: mocks.cancelSubscription } };
+  },
+}));
+vi.mock('@/utils/supabase-admin', () => ({
+  get supabaseAdmin() {
+    return mocks.supabase.current!.supabase;
+  },
+}));
+vi.mock('@/utils/rate-limit', () => ({
+  withRateLimit: (_config: unknown, handler: unknown) => handler,
+}));
+vi.mock('@/utils/auth', async importOriginal => ({
+  ...await importOriginal<typeof import('@/utils/auth')>(),
+  getAuthenticatedUser: async () => mocks.user,
+  hasRequiredAssurance: async () => true,
+}));
+
+import { DELETE } from './route';
+
+describe('DELETE /api/user/delete', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.supabase.current = createSupabaseMock();
+  });
+
+  it('rejects deleting another user\'s account with 403', async () => {
+    const response = await DELETE(new NextRequest('http://localhost:3000/api/user/delete?userId=user_2', { method: 'DELETE' }));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Forbidden' });
+    expect(mocks.supabase.current!.queries).toEqual([]);
+    expect(mocks.cancelSubscription).not.toHaveBeenCalled();
+  });
+
+  it('cancels every subscription Stripe hasn\'t ended', async () => {
+    mocks.supabase.current = createSupabaseMock(query =>
+      query.table === 'subscriptions' && query.operation === 'select'
+        ? {
+          data: ['active', 'trialing', 'past_due', 'unpaid', 'paused', 'canceled', 'incomplete_expired']
+            .map(status => ({ stripe_subscription_id: `sub_${status}`, status })),
+        }
+        : undefined
+    );
+
+    await DELETE(new NextRequest('http://localhost:3000/api/user/delete?userId=user_1', { method: 'DELETE' }));
+
+    expect(mocks.cancelSubscription.mock.calls.map(([id]) => id)).toEqual([
+      'sub_active', 'sub_trialing', 'sub_past_due', 'sub_unpaid', 'sub_paused',
+    ]);
+  });
+});
@@ -3,18 +3,34 @@ import type { NextRequest } from 'next/server';
 import Stripe from 'stripe';
 import { supabaseAdmin } from '@/utils/supabase-admin';
 import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
 
-export const DELETE = withCors(async function DELETE(request: NextRequest) {
+export const DELETE = withCors(withRateLimit(RATE_LIMITS.accountDelete, async function DELETE(request: NextRequest) {
   try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    // Callers can only delete their own account, an explicit userId has to match it
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
+    const requestedUserId = searchParams.get('userId');
 
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    if (requestedUserId && requestedUserId !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    const userId = user.id;
+
     console.log('Starting account soft-deletion for user:', userId);
 
     // 1. Cancel Stripe subscriptions if they exist
@@ -27,7 +43,8 @@ export const DELETE = withCors(async function DELETE(request: NextRequest) {
       console.error('Subscription fetch error:', subError);
     } else if (subscriptionsData) {
       for (const sub of subscriptionsData) {
-        if (sub.stripe_subscription_id && (sub.status === 'active' || sub.status === 'trialing')) {
+        // Anything Stripe hasn't ended yet (past_due, paused, unpaid...) would keep retrying charges
+        if (sub.stripe_subscription_id && !['canceled', 'incomplete_expired'].includes(sub.status)) {
           try {
             await stripe.subscriptions.cancel(sub.stripe_subscription_id);
             console.log('Stripe subscription cancelled:', sub.stripe_subscription_id);
@@ -80,4 +97,4 @@ export const DELETE = withCors(async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}); 
\ No newline at end of file
+})); 
\ No newline at end of file
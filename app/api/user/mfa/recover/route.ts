@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser } from '@/utils/auth';
+import { redeemRecoveryCode } from '@/utils/mfa';
+
+/**
+ * Sign-in fallback for a lost authenticator. The caller has passed the
+ * password step (AAL1); a valid code removes their TOTP factor so they can
+ * refresh their session and enroll again.
+ */
+export const POST = withCors(withRateLimit(RATE_LIMITS.mfaRecover, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { code } = await request.json();
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'Recovery code is required' }, { status: 400 });
+    }
+
+    if (!(await redeemRecoveryCode(user.id, code))) {
+      return NextResponse.json({ error: 'Invalid or already used recovery code' }, { status: 400 });
+    }
+
+    return NextResponse.json({ status: 'recovered' });
+  } catch (error) {
+    console.error('Recovery code redemption failed:', error);
+    return NextResponse.json({
+      error: 'Failed to redeem recovery code',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}));
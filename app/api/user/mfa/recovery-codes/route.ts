@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { withCors } from '@/utils/cors';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getAuthenticatedUser, hasRequiredAssurance } from '@/utils/auth';
+import { countRecoveryCodes, deleteRecoveryCodes, generateRecoveryCodes } from '@/utils/mfa';
+
+export const GET = withCors(withRateLimit(RATE_LIMITS.mfaRecoveryCodes, async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const remaining = await countRecoveryCodes(user.id);
+    return NextResponse.json({ remaining });
+  } catch (error) {
+    console.error('Recovery code count failed:', error);
+    return NextResponse.json({
+      error: 'Failed to load recovery codes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}));
+
+// Codes are only returned here, when they're generated
+export const POST = withCors(withRateLimit(RATE_LIMITS.mfaRecoveryCodes, async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (!user.factors?.some(factor => factor.status === 'verified')) {
+      return NextResponse.json({ error: 'Enable two-factor authentication first' }, { status: 400 });
+    }
+
+    if (!(await hasRequiredAssurance(request, user))) {
+      return NextResponse.json({ error: 'Two-factor verification required', code: 'mfa_required' }, { status: 403 });
+    }
+
+    const codes = await generateRecoveryCodes(user.id);
+    return NextResponse.json({ codes });
+  } catch (error) {
+    console.error('Recovery code generation failed:', error);
+    return NextResponse.json({
+      error: 'Failed to generate recovery codes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}));
+
+// Called after the user removes their factor, when the codes no longer protect anything
+export const DELETE = withCors(withRateLimit(RATE_LIMITS.mfaRecoveryCodes, async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (user.factors?.some(factor => factor.status === 'verified')) {
+      return NextResponse.json({ error: 'Disable two-factor authentication first' }, { status: 400 });
+    }
+
+    await deleteRecoveryCodes(user.id);
+    return NextResponse.json({ status: 'deleted' });
+  } catch (error) {
+    console.error('Recovery code deletion failed:', error);
+    return NextResponse.json({
+      error: 'Failed to delete recovery codes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}));
@@ -1,8 +1,10 @@
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
 
-export async function GET() {
+export const GET = withRateLimit(RATE_LIMITS.onboardingStatus, async function GET() {
   const supabase = createRouteHandlerClient({ cookies });
   
   try {
@@ -54,4 +56,4 @@ export async function GET() {
     console.error('API: Unexpected error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
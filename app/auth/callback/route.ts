@@ -1,15 +1,32 @@
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import type { EmailOtpType } from '@supabase/supabase-js';
+import { withRateLimit } from '@/utils/rate-limit';
+import { RATE_LIMITS } from '@/config/rate-limits';
+import { getSafeRedirectPath } from '@/config/routes';
+import { getOrCreateStripeCustomer } from '@/utils/stripe-customer';
 
-export async function GET(request: Request) {
+const EMAIL_OTP_TYPES: EmailOtpType[] = ['signup', 'invite', 'magiclink', 'recovery', 'email_change', 'email'];
+
+/**
+ * OAuth and PKCE email links arrive with a `code`. Email templates that link
+ * here directly (magic link, email OTP, signup confirmation) send a
+ * `token_hash` and `type` instead, which are verified server side.
+ */
+export const GET = withRateLimit(RATE_LIMITS.authCallback, async function GET(request: NextRequest) {
   const requestUrl = new URL(request.url);
   const code = requestUrl.searchParams.get('code');
+  const tokenHash = requestUrl.searchParams.get('token_hash');
+  const type = requestUrl.searchParams.get('type') as EmailOtpType | null;
   const next = requestUrl.searchParams.get('next');
 
-  if (code) {
+  if (code || (tokenHash && type && EMAIL_OTP_TYPES.includes(type))) {
     const supabase = createRouteHandlerClient({ cookies });
-    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+    const { data, error } = code
+      ? await supabase.auth.exchangeCodeForSession(code)
+      : await supabase.auth.verifyOtp({ token_hash: tokenHash!, type: type! });
     
     if (error) {
       console.error('AuthCallback: Error:', error);
@@ -20,6 +37,14 @@ export async function GET(request: Request) {
     const user = data.user;
 
     if (user) {
+      // Link a Stripe customer up front so checkout, portal and webhooks all agree on it.
+      // Checkout retries this, so a Stripe outage shouldn't block sign in
+      try {
+        await getOrCreateStripeCustomer(user);
+      } catch (customerError) {
+        console.error('AuthCallback: Failed to create Stripe customer:', customerError);
+      }
+
       // Check if user needs onboarding
       const preferencesResult = await supabase
         .from('user_preferences')
@@ -46,20 +71,26 @@ export async function GET(request: Request) {
       
       const needsOnboarding = !preferences?.has_completed_onboarding;
 
-      // Redirect to the next page if provided, otherwise check onboarding status
-      if (next) {
-        return NextResponse.redirect(new URL(next, requestUrl.origin));
+      // Redirect to the next page if provided, otherwise check onboarding status.
+      // Password reset links land on the form to choose a new password
+      const destination = getSafeRedirectPath(
+        next,
+        type === 'recovery' ? '/update-password' : needsOnboarding ? '/onboarding' : '/dashboard'
+      );
+
+      // Accounts with a second factor verify it on the login page before going on
+      const { data: assurance } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      if (assurance?.nextLevel === 'aal2' && assurance.currentLevel !== 'aal2') {
+        return NextResponse.redirect(
+          new URL(`/login?redirect=${encodeURIComponent(destination)}`, requestUrl.origin)
+        );
       }
 
-      const redirectTo = needsOnboarding 
-        ? `${requestUrl.origin}/onboarding`
-        : `${requestUrl.origin}/dashboard`;
-        
-      return NextResponse.redirect(redirectTo);
+      return NextResponse.redirect(new URL(destination, requestUrl.origin));
     }
 
     return NextResponse.redirect(new URL('/dashboard', requestUrl.origin));
   }
 
   return NextResponse.redirect(new URL('/login', requestUrl.origin));
-} 
\ No newline at end of file
+});
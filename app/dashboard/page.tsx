@@ -5,7 +5,9 @@ import { useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/hooks/useSubscription';
 // import { OnboardingTour } from '@/components/OnboardingTour';
-import { useNavigation } from '@/hooks/useNavigation';
+import { useUsage } from '@/hooks/useUsage';
+import { UsageMeter } from '@/components/UsageMeter';
+import { DemoWidget } from '@/components/DemoWidget';
 import { motion } from 'framer-motion';
 import { 
   BarChart3, 
@@ -80,9 +82,9 @@ const recentActivity = [
 ];
 
 export default function Dashboard() {
-  const { user, isSubscriber } = useAuth();
+  const { user } = useAuth();
   const { subscription, fetchSubscription } = useSubscription();
-  const { redirectIfNeeded, shouldShowPage, isLoading } = useNavigation();
+  const { usage, isLoading: isLoadingUsage, fetchUsage } = useUsage();
 
   // Add new states for dashboard functionality
   // const [repositories, setRepositories] = useState([]);
@@ -90,11 +92,6 @@ export default function Dashboard() {
   // const [recentFeedback, setRecentFeedback] = useState([]);
   // const [pendingPRs, setPendingPRs] = useState([]);
 
-  // Centralized navigation logic
-  useEffect(() => {
-    redirectIfNeeded('/dashboard');
-  }, [redirectIfNeeded]);
-
   // Refresh subscription data when user changes
   useEffect(() => {
     if (user?.id) {
@@ -118,35 +115,6 @@ export default function Dashboard() {
     }
   }, [isPaymentSuccess]);
 
-
-
-  // If user shouldn't be on dashboard, show loading or redirect
-  if (!shouldShowPage('/dashboard')) {
-    if (isLoading) {
-      // User has no subscription but we're still loading - redirect to onboarding
-      if (user && !isSubscriber) {
-        return (
-          <div className="min-h-screen flex items-center justify-center">
-            <div className="text-center">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-foreground mb-4 mx-auto"></div>
-              <p className="text-foreground">Redirecting to setup...</p>
-            </div>
-          </div>
-        );
-      }
-      return (
-        <div className="min-h-screen flex items-center justify-center">
-          <div className="text-center">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-foreground mb-4 mx-auto"></div>
-            <p className="text-foreground">Loading...</p>
-          </div>
-        </div>
-      );
-    }
-    return null; // Will redirect via useEffect
-  }
-
-
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-[#0B1120]">
       {/* Payment Success Banner */}
@@ -228,6 +196,14 @@ export default function Dashboard() {
           ))}
         </div>
 
+        {/* Usage */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          <UsageMeter usage={usage} isLoading={isLoadingUsage} />
+          <div className="lg:col-span-2">
+            <DemoWidget onGenerated={fetchUsage} />
+          </div>
+        </div>
+
         {/* Activity Feed */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Chart Section */}
@@ -4,23 +4,36 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { LoginForm } from '@/components/LoginForm';
-import { useOnboarding } from '@/hooks/useOnboarding';
+import { getSafeRedirectPath } from '@/config/routes';
 
 export default function LoginPage() {
-  const { user, signInWithGoogle, signInWithEmail, signUpWithEmail } = useAuth();
-  const { hasCompletedOnboarding, isLoading: isOnboardingLoading } = useOnboarding();
+  const {
+    user,
+    needsMfa,
+    signInWithGoogle,
+    signInWithEmail,
+    signUpWithEmail,
+    signInWithMagicLink,
+    sendEmailOtp,
+    verifyEmailOtp,
+    signOut,
+    verifyMfa,
+    recoverWithCode
+  } = useAuth();
   const router = useRouter();
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
+  // middleware.ts sends the user on to onboarding if the page needs a subscription.
+  // Accounts with a second factor stay here until it's verified.
   useEffect(() => {
-    if (user && !isOnboardingLoading) {
-      const redirectTo = hasCompletedOnboarding ? '/dashboard' : '/onboarding';
-      router.replace(redirectTo);
-    } else if (!user) {
+    if (user && !needsMfa) {
+      const redirect = new URLSearchParams(window.location.search).get('redirect');
+      router.replace(getSafeRedirectPath(redirect, '/dashboard'));
+    } else {
       setIsLoading(false);
     }
-  }, [user, hasCompletedOnboarding, isOnboardingLoading, router]);
+  }, [user, needsMfa, router]);
 
   const handleSubmit = async (email: string, password: string, isSignUp: boolean) => {
     setError('');
@@ -49,6 +62,37 @@ export default function LoginPage() {
     }
   };
 
+  // Runs without the full-page loading state so the form keeps its passwordless step
+  const handlePasswordless = async (action: () => Promise<void>, fallbackError: string) => {
+    setError('');
+
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : fallbackError);
+      return false;
+    }
+  };
+
+  const handleVerifyMfa = async (code: string, isRecoveryCode: boolean) => {
+    setError('');
+    setIsLoading(true);
+
+    try {
+      if (isRecoveryCode) {
+        await recoverWithCode(code);
+      } else {
+        await verifyMfa(code);
+      }
+      // The useEffect will handle the redirect once the session is upgraded
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -66,8 +110,14 @@ export default function LoginPage() {
         <LoginForm
           onSubmit={handleSubmit}
           onGoogleSignIn={signInWithGoogle}
+          onSendMagicLink={(email) => handlePasswordless(() => signInWithMagicLink(email), 'Failed to send sign-in link')}
+          onSendEmailOtp={(email) => handlePasswordless(() => sendEmailOtp(email), 'Failed to send sign-in code')}
+          onVerifyEmailOtp={(email, code) => handlePasswordless(() => verifyEmailOtp(email, code), 'Invalid or expired code')}
           isLoading={isLoading}
           error={error}
+          mfaRequired={!!user && needsMfa}
+          onVerifyMfa={handleVerifyMfa}
+          onCancelMfa={signOut}
         />
       </div>
     </div>
@@ -4,21 +4,14 @@ import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { OnboardingLayout } from '@/components/onboarding/OnboardingLayout';
 import { OnboardingPricing } from '@/components/onboarding/OnboardingPricing';
-import { useNavigation } from '@/hooks/useNavigation';
 import { motion } from 'framer-motion';
 
 const AUTH_TIMEOUT = 15000; // 15 seconds
 
 export default function OnboardingPage() {
-  const { user } = useAuth();
-  const { redirectIfNeeded, isLoading } = useNavigation();
+  const { user, isLoading } = useAuth();
   const [authTimeout, setAuthTimeout] = useState(false);
 
-  // Centralized navigation logic
-  useEffect(() => {
-    redirectIfNeeded('/onboarding');
-  }, [redirectIfNeeded]);
-
   // Set auth timeout
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -46,8 +39,9 @@ export default function OnboardingPage() {
     );
   }
 
+  // middleware.ts only lets signed-in users through
   if (!user) {
-    return null; // Will redirect to login
+    return null;
   }
 
   return (
@@ -57,10 +51,7 @@ export default function OnboardingPage() {
       className="min-h-screen"
     >
       <OnboardingLayout>
-        <OnboardingPricing 
-          userId={user.id} 
-          userEmail={user.email || ''} 
-        />
+        <OnboardingPricing userId={user.id} />
       </OnboardingLayout>
     </motion.div>
   );
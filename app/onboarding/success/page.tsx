@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation';
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { syncUserSubscription } from '@/utils/reconciliation';
 
 export default async function OnboardingSuccessPage() {
   // Get the authenticated user
@@ -27,18 +28,7 @@ export default async function OnboardingSuccessPage() {
 
     // Sync subscription status from Stripe
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/stripe/sync`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`
-        },
-        body: JSON.stringify({ userId: user.id })
-      });
-
-      if (!response.ok) {
-        console.error('OnboardingSuccess: Failed to sync subscription:', response.status);
-      }
+      await syncUserSubscription(user.id);
     } catch (syncError) {
       console.error('OnboardingSuccess: Subscription sync error:', syncError);
       // Don't fail the onboarding completion if sync fails
@@ -49,5 +39,5 @@ export default async function OnboardingSuccessPage() {
   }
 
   // Always redirect to dashboard after processing
-  redirect('/dashboard');
+  redirect('/dashboard?payment_success=true');
 }
\ No newline at end of file
@@ -11,11 +11,23 @@ import { Suspense } from 'react';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import { useTrialStatus } from '@/hooks/useTrialStatus';
 import { UpgradePlans } from '@/components/UpgradePlans';
+import { PaymentFailedBanner } from '@/components/PaymentFailedBanner';
+import { BillingHistory } from '@/components/BillingHistory';
+import { BillingDetails } from '@/components/BillingDetails';
+import { SeatManager } from '@/components/SeatManager';
+import { ReconciliationPanel } from '@/components/ReconciliationPanel';
+import { BillingAdjustmentPanel } from '@/components/BillingAdjustmentPanel';
+import { MfaSettings } from '@/components/MfaSettings';
+import { useBillingPortal } from '@/hooks/useBillingPortal';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import { formatDiscount } from '@/utils/discounts';
+import { formatCurrency } from '@/utils/currency';
+import { TRIAL_DAYS, TRIAL_MODE } from '@/utils/trial-config';
 // import { PricingSection } from '@/components/PricingSection';
 
 function ProfileContent() {
   const { user } = useAuth();
-  const { subscription, isLoading: isLoadingSubscription, syncWithStripe, fetchSubscription } = useSubscription();
+  const { subscription, isLoading: isLoadingSubscription, isPastDue, fetchSubscription } = useSubscription();
   const router = useRouter();
   const searchParams = useSearchParams();
   const paymentStatus = searchParams.get('payment');
@@ -23,10 +35,16 @@ function ProfileContent() {
   const [isCancelling, setIsCancelling] = useState(false);
   const [isReactivating, setIsReactivating] = useState(false);
   const [isUpgrading, setIsUpgrading] = useState(false);
+  const [isUndoingDowngrade, setIsUndoingDowngrade] = useState(false);
+  const [isPauseModalOpen, setIsPauseModalOpen] = useState(false);
+  const [pauseResumeDate, setPauseResumeDate] = useState('');
+  const [isPausing, setIsPausing] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
   const [showUpgradePlans, setShowUpgradePlans] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-  const { isInTrial, trialEndTime } = useTrialStatus();
+  const { isInTrial, trialEndTime, hasTrialAvailable } = useTrialStatus();
+  const { openBillingPortal, isOpening: isOpeningPortal, error: portalError } = useBillingPortal();
 
   // Show payment success message if redirected from successful payment
   useEffect(() => {
@@ -35,18 +53,6 @@ function ProfileContent() {
     }
   }, [paymentStatus]);
 
-  // Add error handling for subscription sync
-  useEffect(() => {
-    if (subscription?.stripe_subscription_id) {
-      try {
-        syncWithStripe(subscription.stripe_subscription_id);
-      } catch (err: unknown) {
-        console.error('Error syncing with Stripe:', err);
-        setError('Unable to load subscription details');
-      }
-    }
-  }, [syncWithStripe, subscription?.stripe_subscription_id]);
-
   // Add loading timeout with auto-refresh
   useEffect(() => {
     let timeoutId: NodeJS.Timeout;
@@ -96,7 +102,7 @@ function ProfileContent() {
     
     setIsCancelling(true);
     try {
-      const response = await fetch('/api/stripe/cancel', {
+      const response = await fetchWithAuth('/api/stripe/cancel', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
@@ -122,7 +128,7 @@ function ProfileContent() {
     
     setIsReactivating(true);
     try {
-      const response = await fetch('/api/stripe/reactivate', {
+      const response = await fetchWithAuth('/api/stripe/reactivate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
@@ -142,18 +148,78 @@ function ProfileContent() {
     }
   };
 
-  const handleUpgrade = async (newPriceId: string, planName: string) => {
+  const handlePauseSubscription = async () => {
+    if (!subscription?.stripe_subscription_id) return;
+
+    setIsPausing(true);
+    try {
+      const response = await fetchWithAuth('/api/stripe/pause', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subscriptionId: subscription.stripe_subscription_id,
+          resumesAt: pauseResumeDate ? new Date(pauseResumeDate).toISOString() : undefined
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to pause subscription');
+      }
+
+      setIsPauseModalOpen(false);
+      setPauseResumeDate('');
+      await fetchSubscription(true);
+    } catch (error) {
+      console.error('Error pausing subscription:', error);
+      setError(error instanceof Error ? error.message : 'Failed to pause subscription');
+      setTimeout(() => setError(null), 8000);
+    } finally {
+      setIsPausing(false);
+    }
+  };
+
+  const handleResumeSubscription = async () => {
+    if (!subscription?.stripe_subscription_id) return;
+
+    setIsResuming(true);
+    try {
+      const response = await fetchWithAuth('/api/stripe/resume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subscriptionId: subscription.stripe_subscription_id
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to resume subscription');
+      }
+
+      await fetchSubscription(true);
+    } catch (error) {
+      console.error('Error resuming subscription:', error);
+      setError(error instanceof Error ? error.message : 'Failed to resume subscription');
+      setTimeout(() => setError(null), 8000);
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  const handleUpgrade = async (newPriceId: string, planName: string, prorationDate?: number, promotionCode?: string) => {
     if (!subscription?.stripe_subscription_id) return;
     
     setIsUpgrading(true);
     try {
-      const response = await fetch('/api/stripe/upgrade', {
+      const response = await fetchWithAuth('/api/stripe/upgrade', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           subscriptionId: subscription.stripe_subscription_id,
           newPriceId,
-          prorate: true
+          prorationDate,
+          promotionCode
         }),
       });
       
@@ -164,20 +230,27 @@ function ProfileContent() {
       
       const result = await response.json();
       
-      // Show success message
-      const action = planName.toLowerCase().includes('enterprise') && 
-                    getCurrentPlanId() === 'pro' ? 'upgraded' : 'changed';
+      if (result.scheduled) {
+        setSuccessMessage(
+          `Your plan will switch to ${result.productName} on ${new Date(result.effectiveDate).toLocaleDateString()}.`
+        );
+        setTimeout(() => setSuccessMessage(null), 5000);
+        await fetchSubscription(true);
+        setShowUpgradePlans(false);
+        return;
+      }
       
+      // Downgrades are scheduled above, so an immediate change is an upgrade
       if (result.prorationAmount > 0) {
         setSuccessMessage(
-          `Successfully ${action} to ${planName}! Prorated charge: $${(result.prorationAmount / 100).toFixed(2)}`
+          `Successfully upgraded to ${planName}! Prorated charge: ${formatCurrency(result.prorationAmount, result.currency)}`
         );
       } else if (result.prorationAmount < 0) {
         setSuccessMessage(
-          `Successfully ${action} to ${planName}! Credit applied: $${Math.abs(result.prorationAmount / 100).toFixed(2)}`
+          `Successfully upgraded to ${planName}! Credit applied: ${formatCurrency(Math.abs(result.prorationAmount), result.currency)}`
         );
       } else {
-        setSuccessMessage(`Successfully ${action} to ${planName}!`);
+        setSuccessMessage(`Successfully upgraded to ${planName}!`);
       }
       
       // Auto-hide success message after 5 seconds
@@ -197,27 +270,40 @@ function ProfileContent() {
     }
   };
 
-  const getCurrentPlanId = () => {
-    // Map your product names to plan IDs - be more flexible with matching
-    if (!subscription?.product_name) return null;
-    
-    const productName = subscription.product_name.toLowerCase();
-    
-    // Handle different variations of plan names
-    if (productName.includes('pro')) return 'pro';
-    if (productName.includes('enterprise')) return 'enterprise';
-    
-    // Default fallback - if we don't recognize it, assume it's the lowest tier
-    return 'pro';
-  };
+  const handleUndoDowngrade = async () => {
+    if (!subscription?.stripe_subscription_id) return;
+
+    setIsUndoingDowngrade(true);
+    try {
+      const response = await fetchWithAuth('/api/stripe/cancel-downgrade', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subscriptionId: subscription.stripe_subscription_id
+        }),
+      });
 
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel scheduled plan change');
+      }
+
+      await fetchSubscription(true);
+    } catch (error) {
+      console.error('Error cancelling scheduled downgrade:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel scheduled plan change');
+      setTimeout(() => setError(null), 8000);
+    } finally {
+      setIsUndoingDowngrade(false);
+    }
+  };
 
   const canChangePlan = () => {
     // Show change plan options if user has an active subscription
     // This includes both upgrades and downgrades
     return subscription && 
            subscription.status === 'active' && 
-           getCurrentPlanId();
+           subscription.price_id;
   };
 
   if (!user) {
@@ -256,6 +342,10 @@ function ProfileContent() {
           </div>
         )}
         
+        {isPastDue && subscription && (
+          <PaymentFailedBanner subscription={subscription} />
+        )}
+        
         {error && !isLoadingSubscription && (
           <div className="mb-8 p-4 bg-red-50 dark:bg-red-900/30 rounded-lg">
             <p className="text-red-600 dark:text-red-400">
@@ -268,6 +358,11 @@ function ProfileContent() {
         
         <AccountManagement />
 
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+          <h2 className="text-xl font-semibold mb-4">Two-Factor Authentication</h2>
+          <MfaSettings />
+        </div>
+
         {/* Subscription Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
           <h2 className="text-xl font-semibold mb-4">Subscription Status</h2>
@@ -280,11 +375,66 @@ function ProfileContent() {
             <div className="space-y-2">
               <p>
                 <span className="font-medium">Status:</span>{' '}
-                <span className={`${subscription.status === 'active' ? 'text-green-500' : 'text-yellow-500'}`}>
-                  {subscription.status.charAt(0).toUpperCase() + subscription.status.slice(1)}
-                </span>
+                {subscription.is_paused ? (
+                  <span className="text-blue-500">Paused</span>
+                ) : (
+                  <span className={`${subscription.status === 'active' ? 'text-green-500' : 'text-yellow-500'}`}>
+                    {subscription.status.charAt(0).toUpperCase() + subscription.status.slice(1)}
+                  </span>
+                )}
               </p>
               <p><span className="font-medium">Started:</span> {new Date(subscription.created_at).toLocaleDateString()}</p>
+              {subscription.status === 'trialing' && isInTrial && trialEndTime && (
+                <p>
+                  <span className="font-medium">Trial ends:</span> {new Date(trialEndTime).toLocaleDateString()}
+                  {TRIAL_MODE === 'no_card' && (
+                    <span className="block text-sm text-gray-500 dark:text-gray-400">
+                      Add a payment method through Manage Billing to keep access after your trial.
+                    </span>
+                  )}
+                </p>
+              )}
+              {subscription.discount_duration && (
+                <p>
+                  <span className="font-medium">Discount:</span>{' '}
+                  {subscription.discount_code || subscription.discount_name} —{' '}
+                  {formatDiscount({
+                    name: subscription.discount_name,
+                    percentOff: subscription.discount_percent_off,
+                    amountOff: subscription.discount_amount_off,
+                    currency: subscription.discount_currency,
+                    duration: subscription.discount_duration,
+                    durationInMonths: subscription.discount_duration_in_months
+                  })}
+                  {subscription.discount_ends_at && (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {' '}(ends {new Date(subscription.discount_ends_at).toLocaleDateString()})
+                    </span>
+                  )}
+                </p>
+              )}
+
+              {subscription.pending_change_at && (
+                <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
+                  <p className="text-blue-600 dark:text-blue-400 mb-2">
+                    Switching to {subscription.pending_product_name} on {new Date(subscription.pending_change_at).toLocaleDateString()}
+                  </p>
+                  <button
+                    onClick={handleUndoDowngrade}
+                    className="text-sm bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 px-4 py-2 rounded-lg flex items-center gap-2"
+                    disabled={isUndoingDowngrade}
+                  >
+                    {isUndoingDowngrade ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                        Undoing...
+                      </>
+                    ) : (
+                      'Keep Current Plan'
+                    )}
+                  </button>
+                </div>
+              )}
               
               {subscription.status === 'canceled' ? (
                 <div className="mt-4">
@@ -295,6 +445,30 @@ function ProfileContent() {
                     Resubscribe
                   </Link>
                 </div>
+              ) : subscription.is_paused ? (
+                <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
+                  <p className="text-blue-600 dark:text-blue-400 mb-2">
+                    Your subscription is paused
+                    {subscription.paused_at && ` since ${new Date(subscription.paused_at).toLocaleDateString()}`}
+                    {subscription.pause_resumes_at
+                      ? ` and will resume automatically on ${new Date(subscription.pause_resumes_at).toLocaleDateString()}.`
+                      : '. You won\'t be billed until you resume it.'}
+                  </p>
+                  <button
+                    onClick={handleResumeSubscription}
+                    className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg flex items-center gap-2"
+                    disabled={isResuming}
+                  >
+                    {isResuming ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        Resuming...
+                      </>
+                    ) : (
+                      'Resume Now'
+                    )}
+                  </button>
+                </div>
               ) : subscription.cancel_at_period_end ? (
                 <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/30 rounded-lg">
                   <p className="text-yellow-600 dark:text-yellow-400 mb-2">
@@ -325,6 +499,12 @@ function ProfileContent() {
                       Change Plan
                     </button>
                   )}
+                  <button
+                    onClick={() => setIsPauseModalOpen(true)}
+                    className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg"
+                  >
+                    Pause Subscription
+                  </button>
                   <button
                     onClick={() => setIsCancelModalOpen(true)}
                     className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg"
@@ -333,17 +513,46 @@ function ProfileContent() {
                   </button>
                 </div>
               ) : null}
+
+              {(subscription.status === 'active' || subscription.status === 'trialing') && !subscription.is_paused && (
+                <SeatManager
+                  subscription={subscription}
+                  onSeatsChange={() => fetchSubscription(true)}
+                />
+              )}
+
+              {subscription.status !== 'canceled' && (
+                <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                  <button
+                    onClick={openBillingPortal}
+                    disabled={isOpeningPortal}
+                    className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg flex items-center gap-2 disabled:opacity-50"
+                  >
+                    {isOpeningPortal ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                        Opening...
+                      </>
+                    ) : (
+                      'Manage Billing'
+                    )}
+                  </button>
+                  <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                    Update your card, billing email or tax ID.
+                  </p>
+                  {portalError && (
+                    <p className="mt-2 text-sm text-red-600 dark:text-red-400">{portalError}</p>
+                  )}
+                </div>
+              )}
             </div>
           ) : (
             <div className="mt-4 space-y-4">
-              {isInTrial ? (
-                <>
-                  <p className="text-yellow-600 dark:text-yellow-400">
-                    You are currently in your 48-hour trial period. Your trial will end on {' '}
-                    {trialEndTime ? new Date(trialEndTime).toLocaleDateString() : 'soon'}.
-                  </p>
-                  <p>Subscribe now to continue using the app after the trial ends.</p>
-                </>
+              {hasTrialAvailable ? (
+                <p>
+                  Start with a {TRIAL_DAYS}-day free trial
+                  {TRIAL_MODE === 'no_card' ? ', no card required' : ''}.
+                </p>
               ) : trialEndTime ? (
                 <>
                   <div className="p-4 bg-red-50 dark:bg-red-900/30 rounded-lg mb-4">
@@ -369,6 +578,30 @@ function ProfileContent() {
           )}
         </div>
 
+        {/* Billing address and tax details live on the Stripe customer */}
+        {subscription && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4">Billing Details</h2>
+            <BillingDetails />
+          </div>
+        )}
+
+        <BillingHistory />
+
+        {user?.app_metadata?.role === 'admin' && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4">Stripe Reconciliation</h2>
+            <ReconciliationPanel />
+          </div>
+        )}
+
+        {user?.app_metadata?.role === 'admin' && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4">Refunds and Credit Notes</h2>
+            <BillingAdjustmentPanel />
+          </div>
+        )}
+
         {/* Change Plans Modal */}
         {showUpgradePlans && canChangePlan() && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50 overflow-y-auto">
@@ -385,7 +618,9 @@ function ProfileContent() {
               </div>
               
               <UpgradePlans
-                currentPlan={getCurrentPlanId() || ''}
+                currentPriceId={subscription!.price_id}
+                currency={subscription!.currency}
+                subscriptionId={subscription!.stripe_subscription_id}
                 onUpgrade={handleUpgrade}
                 isUpgrading={isUpgrading}
               />
@@ -398,6 +633,52 @@ function ProfileContent() {
           <PricingSection showFullDetails={true} />
         )} */}
 
+        {/* Pause Subscription Modal */}
+        {isPauseModalOpen && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full">
+              <h3 className="text-xl font-semibold mb-4">Pause Subscription?</h3>
+              <p className="text-gray-600 dark:text-gray-300 mb-4">
+                You won&apos;t be billed while your subscription is paused, and you&apos;ll lose access until it resumes.
+              </p>
+              <label className="block text-sm font-medium mb-1" htmlFor="pause-resume-date">
+                Resume automatically on (optional)
+              </label>
+              <input
+                id="pause-resume-date"
+                type="date"
+                value={pauseResumeDate}
+                min={new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]}
+                onChange={e => setPauseResumeDate(e.target.value)}
+                className="w-full mb-6 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+              <div className="flex gap-4 justify-end">
+                <button
+                  onClick={() => setIsPauseModalOpen(false)}
+                  className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                  disabled={isPausing}
+                >
+                  Keep Subscription
+                </button>
+                <button
+                  onClick={handlePauseSubscription}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2"
+                  disabled={isPausing}
+                >
+                  {isPausing ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                      Pausing...
+                    </>
+                  ) : (
+                    'Pause'
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Cancel Confirmation Modal */}
         {isCancelModalOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
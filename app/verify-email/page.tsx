@@ -6,11 +6,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import LoadingSpinner from '@/components/LoadingSpinner';
 
 function VerifyEmailContent() {
-  const { user } = useAuth();
+  const { user, verifyEmailOtp, resendSignupEmail } = useAuth();
   const router = useRouter();
   const searchParams = useSearchParams();
   const email = searchParams.get('email');
   const [countdown, setCountdown] = useState(60);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
 
   // Redirect if user is already verified
   useEffect(() => {
@@ -29,9 +33,37 @@ function VerifyEmailContent() {
   }, []);
 
   const handleResendEmail = async () => {
+    if (!email) return;
+
     // Reset countdown
     setCountdown(60);
-    // TODO: Implement resend verification email logic
+    setError('');
+    setMessage('');
+
+    try {
+      await resendSignupEmail(email);
+      setMessage('A new verification email is on its way.');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to resend verification email');
+    }
+  };
+
+  // Confirms the account and signs the user in, the effect above redirects
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+
+    setIsVerifying(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await verifyEmailOtp(email, code.trim(), 'signup');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid or expired code');
+    } finally {
+      setIsVerifying(false);
+    }
   };
 
   return (
@@ -42,14 +74,38 @@ function VerifyEmailContent() {
             Check Your Email
           </h2>
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-            We sent a verification link to{' '}
+            We sent a verification link and code to{' '}
             <span className="font-medium">{email}</span>
           </p>
         </div>
 
         <div className="mt-8 space-y-6">
+          {email && (
+            <form onSubmit={handleVerifyCode} className="space-y-4">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="6-digit code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className="appearance-none rounded-lg block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-800 text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all"
+              />
+              <button
+                type="submit"
+                disabled={isVerifying || !code.trim()}
+                className="w-full py-2.5 px-4 rounded-full text-white bg-primary hover:bg-primary-dark disabled:opacity-50 transition-all"
+              >
+                {isVerifying ? 'Verifying...' : 'Verify email'}
+              </button>
+            </form>
+          )}
+
+          {error && <p className="text-center text-sm text-red-500">{error}</p>}
+          {message && <p className="text-center text-sm text-green-600 dark:text-green-400">{message}</p>}
+
           <div className="text-center text-sm text-gray-600 dark:text-gray-400">
-            <p>Please check your email and click the verification link to continue.</p>
+            <p>Enter the code from the email, or click the verification link to continue.</p>
             <p className="mt-4">
               Didn&apos;t receive the email? You can request a new one{' '}
               {countdown > 0 ? (
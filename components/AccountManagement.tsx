@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
 
 export function AccountManagement() {
   const { user, signOut } = useAuth();
@@ -19,7 +20,7 @@ export function AccountManagement() {
     setError('');
     
     try {
-      const response = await fetch(`/api/user/delete?userId=${user.id}`, {
+      const response = await fetchWithAuth('/api/user/delete', {
         method: 'DELETE',
       });
       
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+
+type AdjustmentKind = 'refund' | 'credit-note';
+
+const ENDPOINTS: Record<AdjustmentKind, string> = {
+  refund: '/api/admin/refunds',
+  'credit-note': '/api/admin/credit-notes',
+};
+
+export function BillingAdjustmentPanel() {
+  const [kind, setKind] = useState<AdjustmentKind>('refund');
+  const [invoiceId, setInvoiceId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  // One key per submission: a double click or retry reuses it, a new or edited adjustment gets a fresh one
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const renewKey = () => setIdempotencyKey(crypto.randomUUID());
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetchWithAuth(ENDPOINTS[kind], {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          invoiceId: invoiceId.trim(),
+          amount: amount ? Number(amount) : undefined,
+          reason,
+          idempotencyKey,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to adjust invoice');
+      }
+
+      setResult(kind === 'refund'
+        ? `Refund ${data.refundId} issued`
+        : `Credit note ${data.creditNoteId} issued`);
+      setInvoiceId('');
+      setAmount('');
+      setReason('');
+      renewKey();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to adjust invoice');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Refund a paid invoice or issue a credit note. Leave the amount empty to adjust everything that&apos;s left.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <select
+          value={kind}
+          onChange={e => { setKind(e.target.value as AdjustmentKind); renewKey(); }}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+        >
+          <option value="refund">Refund</option>
+          <option value="credit-note">Credit note</option>
+        </select>
+        <input
+          value={invoiceId}
+          onChange={e => { setInvoiceId(e.target.value); renewKey(); }}
+          placeholder="Invoice ID (in_...)"
+          required
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm font-mono"
+        />
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={amount}
+          onChange={e => { setAmount(e.target.value); renewKey(); }}
+          placeholder="Amount in the smallest currency unit (optional)"
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+        />
+        <input
+          value={reason}
+          onChange={e => { setReason(e.target.value); renewKey(); }}
+          placeholder="Reason"
+          required
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !invoiceId.trim() || !reason.trim()}
+        className="bg-primary hover:bg-primary-dark text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-50"
+      >
+        {isSubmitting && <Loader2 size={16} className="animate-spin" />}
+        {kind === 'refund' ? 'Issue Refund' : 'Issue Credit Note'}
+      </button>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {result && <p className="text-sm text-green-600 dark:text-green-400">{result}</p>}
+    </form>
+  );
+}
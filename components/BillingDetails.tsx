@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import type { BillingAddress, BillingProfile, TaxStatus } from '@/types/BillingTypes';
+
+const TAX_ID_TYPES = [
+  { value: 'eu_vat', label: 'EU VAT' },
+  { value: 'gb_vat', label: 'UK VAT' },
+  { value: 'ch_vat', label: 'Swiss VAT' },
+  { value: 'no_vat', label: 'Norwegian VAT' },
+  { value: 'us_ein', label: 'US EIN' },
+  { value: 'ca_bn', label: 'Canadian BN' },
+  { value: 'au_abn', label: 'Australian ABN' },
+];
+
+const TAX_STATUS_LABELS: Record<TaxStatus, string> = {
+  supported: 'Tax is calculated for your location',
+  not_collecting: 'No tax is collected for your location',
+  unrecognized_location: 'Add a complete billing address so tax can be calculated',
+  failed: 'Tax could not be calculated for your address',
+};
+
+const EMPTY_ADDRESS: BillingAddress = {
+  line1: null,
+  line2: null,
+  city: null,
+  state: null,
+  postalCode: null,
+  country: null,
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm';
+
+export function BillingDetails() {
+  const [profile, setProfile] = useState<BillingProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState<BillingAddress>(EMPTY_ADDRESS);
+  const [taxIdType, setTaxIdType] = useState(TAX_ID_TYPES[0].value);
+  const [taxIdValue, setTaxIdValue] = useState('');
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await fetchWithAuth('/api/stripe/billing-profile');
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load billing details');
+        }
+
+        setProfile(data.profile);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load billing details');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  const startEditing = () => {
+    setName(profile?.name || '');
+    setAddress(profile?.address || EMPTY_ADDRESS);
+    setTaxIdType(profile?.taxIds[0]?.type || TAX_ID_TYPES[0].value);
+    setTaxIdValue(profile?.taxIds[0]?.value || '');
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const updateAddress = (field: keyof BillingAddress, value: string) => {
+    setAddress(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth('/api/stripe/billing-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          address,
+          taxId: taxIdValue.trim() ? { type: taxIdType, value: taxIdValue } : null
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update billing details');
+      }
+
+      setProfile(data.profile);
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update billing details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2">
+        <Loader2 size={16} className="animate-spin" />
+        <span>Loading billing details...</span>
+      </div>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSave} className="space-y-3">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Name or company"
+          className={inputClassName}
+        />
+        <input
+          value={address.line1 || ''}
+          onChange={e => updateAddress('line1', e.target.value)}
+          placeholder="Address line 1"
+          className={inputClassName}
+        />
+        <input
+          value={address.line2 || ''}
+          onChange={e => updateAddress('line2', e.target.value)}
+          placeholder="Address line 2"
+          className={inputClassName}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            value={address.postalCode || ''}
+            onChange={e => updateAddress('postalCode', e.target.value)}
+            placeholder="Postal code"
+            className={inputClassName}
+          />
+          <input
+            value={address.city || ''}
+            onChange={e => updateAddress('city', e.target.value)}
+            placeholder="City"
+            className={inputClassName}
+          />
+          <input
+            value={address.state || ''}
+            onChange={e => updateAddress('state', e.target.value)}
+            placeholder="State / region"
+            className={inputClassName}
+          />
+          <input
+            value={address.country || ''}
+            onChange={e => updateAddress('country', e.target.value.toUpperCase())}
+            placeholder="Country code, e.g. DE"
+            maxLength={2}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={taxIdType}
+            onChange={e => setTaxIdType(e.target.value)}
+            className={`${inputClassName} w-40`}
+            aria-label="Tax ID type"
+          >
+            {TAX_ID_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <input
+            value={taxIdValue}
+            onChange={e => setTaxIdValue(e.target.value)}
+            placeholder="Tax ID, e.g. DE123456789"
+            className={inputClassName}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm flex items-center gap-2 disabled:opacity-50"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsEditing(false)}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  const addressLines = profile && [
+    profile.address.line1,
+    profile.address.line2,
+    [profile.address.postalCode, profile.address.city].filter(Boolean).join(' '),
+    [profile.address.state, profile.address.country].filter(Boolean).join(', '),
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      {profile?.name && <p><span className="font-medium">Billed to:</span> {profile.name}</p>}
+      {addressLines?.length ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{addressLines.join('\n')}</p>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No billing address on file.</p>
+      )}
+      {profile?.taxIds.map(taxId => (
+        <p key={taxId.id} className="text-sm">
+          <span className="font-medium">Tax ID:</span> {taxId.value}
+          {taxId.verificationStatus && (
+            <span className={`ml-2 ${taxId.verificationStatus === 'verified' ? 'text-green-500' : 'text-gray-500 dark:text-gray-400'}`}>
+              ({taxId.verificationStatus})
+            </span>
+          )}
+        </p>
+      ))}
+      {profile?.taxExempt === 'reverse' && (
+        <p className="text-sm text-gray-600 dark:text-gray-300">Reverse charge applies to your invoices.</p>
+      )}
+      {profile?.taxStatus && (
+        <p className={`text-sm ${profile.taxStatus === 'supported' || profile.taxStatus === 'not_collecting' ? 'text-gray-500 dark:text-gray-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+          {TAX_STATUS_LABELS[profile.taxStatus]}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <button
+        onClick={startEditing}
+        className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg text-sm"
+      >
+        Edit Billing Details
+      </button>
+    </div>
+  );
+}
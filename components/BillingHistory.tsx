@@ -0,0 +1,190 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { FileText, ExternalLink } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import { formatCurrency } from '@/utils/currency';
+import type { TaxBreakdownLine } from '@/types/BillingTypes';
+
+interface InvoiceSummary {
+  id: string;
+  number: string | null;
+  created: string;
+  amount: number;
+  subtotal: number;
+  tax: number;
+  taxBreakdown: TaxBreakdownLine[];
+  amountPaid: number;
+  currency: string;
+  status: string | null;
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+}
+
+interface InvoicePage {
+  invoices: InvoiceSummary[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+const PAGE_SIZE = 10;
+
+const STATUS_STYLES: Record<string, string> = {
+  paid: 'text-green-500',
+  open: 'text-yellow-500',
+  uncollectible: 'text-red-500',
+  void: 'text-gray-500',
+};
+
+export function BillingHistory() {
+  // Stripe paginates with cursors, so keep the cursor that opened each page to go back
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const [page, setPage] = useState<InvoicePage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentCursor = cursors[cursors.length - 1];
+
+  const fetchInvoices = useCallback(async (cursor: string | null) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) params.set('starting_after', cursor);
+
+      const response = await fetchWithAuth(`/api/stripe/invoices?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load invoices');
+      }
+
+      setPage(await response.json());
+    } catch (err) {
+      console.error('Error loading billing history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInvoices(currentCursor);
+  }, [fetchInvoices, currentCursor]);
+
+  const handleNextPage = () => {
+    if (page?.hasMore && page.nextCursor) {
+      setCursors(prev => [...prev, page.nextCursor]);
+    }
+  };
+
+  const handlePreviousPage = () => {
+    setCursors(prev => (prev.length > 1 ? prev.slice(0, -1) : prev));
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-semibold mb-4">Billing History</h2>
+
+      {isLoading ? (
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          <span>Loading invoices...</span>
+        </div>
+      ) : error ? (
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      ) : !page?.invoices.length ? (
+        <p className="text-gray-600 dark:text-gray-300">No invoices yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Invoice</th>
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Amount</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {page.invoices.map(invoice => (
+                <tr key={invoice.id} className="border-b border-gray-100 dark:border-gray-700/50">
+                  <td className="py-3 pr-4">{invoice.number || '—'}</td>
+                  <td className="py-3 pr-4">{new Date(invoice.created).toLocaleDateString()}</td>
+                  <td className="py-3 pr-4">
+                    {formatCurrency(invoice.amount, invoice.currency)}
+                    {invoice.taxBreakdown.length > 0 && (
+                      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+                        <div>Subtotal {formatCurrency(invoice.subtotal, invoice.currency)}</div>
+                        {invoice.taxBreakdown.map((line, index) => (
+                          <div key={index}>
+                            {line.name}
+                            {line.percentage !== null && ` ${line.percentage}%`}
+                            {line.inclusive && ' (included)'}
+                            {' '}{formatCurrency(line.amount, invoice.currency)}
+                            {line.taxabilityReason === 'reverse_charge' && ' · Reverse charge'}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className={`py-3 pr-4 ${STATUS_STYLES[invoice.status || ''] || ''}`}>
+                    {invoice.status ? invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1) : '—'}
+                  </td>
+                  <td className="py-3">
+                    <div className="flex gap-3 justify-end">
+                      {invoice.hostedInvoiceUrl && (
+                        <a
+                          href={invoice.hostedInvoiceUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-primary hover:text-primary-dark"
+                        >
+                          <ExternalLink size={14} />
+                          View
+                        </a>
+                      )}
+                      {invoice.invoicePdf && (
+                        <a
+                          href={invoice.invoicePdf}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-primary hover:text-primary-dark"
+                        >
+                          <FileText size={14} />
+                          PDF
+                        </a>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(cursors.length > 1 || page?.hasMore) && (
+        <div className="mt-4 flex justify-between items-center">
+          <button
+            onClick={handlePreviousPage}
+            disabled={cursors.length === 1 || isLoading}
+            className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500 dark:text-gray-400">Page {cursors.length}</span>
+          <button
+            onClick={handleNextPage}
+            disabled={!page?.hasMore || isLoading}
+            className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import type { PlanInterval } from '@/types/PlanTypes';
+
+interface BillingIntervalToggleProps {
+  interval: PlanInterval;
+  onChange: (interval: PlanInterval) => void;
+  savingsPercent: number;
+}
+
+export function BillingIntervalToggle({ interval, onChange, savingsPercent }: BillingIntervalToggleProps) {
+  const options: { value: PlanInterval; label: string }[] = [
+    { value: 'month', label: 'Monthly' },
+    { value: 'year', label: 'Yearly' },
+  ];
+
+  return (
+    <div className="flex justify-center">
+      <div className="inline-flex items-center rounded-full bg-gray-100 dark:bg-gray-700 p-1">
+        {options.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.value)}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors ${
+              interval === option.value
+                ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow'
+                : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            {option.label}
+            {option.value === 'year' && savingsPercent > 0 && (
+              <span className="ml-2 text-xs text-green-600 dark:text-green-400">
+                Save up to {savingsPercent}%
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
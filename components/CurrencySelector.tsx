@@ -0,0 +1,26 @@
+'use client';
+
+interface CurrencySelectorProps {
+  currency: string;
+  currencies: string[];
+  onChange: (currency: string) => void;
+}
+
+export function CurrencySelector({ currency, currencies, onChange }: CurrencySelectorProps) {
+  if (currencies.length < 2) return null;
+
+  return (
+    <select
+      value={currency}
+      onChange={e => onChange(e.target.value)}
+      aria-label="Currency"
+      className="rounded-full bg-gray-100 dark:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 border-none focus:ring-2 focus:ring-primary"
+    >
+      {currencies.map(option => (
+        <option key={option} value={option}>
+          {option.toUpperCase()}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,4 +1,46 @@
-export const DemoWidget = () => {
+'use client';
+
+import { useState } from 'react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+
+interface DemoWidgetProps {
+  onGenerated?: () => void;
+}
+
+export const DemoWidget = ({ onGenerated }: DemoWidgetProps) => {
+  const [feedback, setFeedback] = useState('');
+  const [code, setCode] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = async () => {
+    if (!feedback.trim()) return;
+
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth('/api/demo/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ feedback }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate code');
+      }
+
+      setCode(data.code);
+      onGenerated?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate code');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-xl p-6">
       <h3 className="text-xl font-semibold mb-4">Try It Out</h3>
@@ -12,21 +54,30 @@ export const DemoWidget = () => {
               className="w-full p-3 border border-slate-200 rounded-lg"
               rows={3}
               placeholder="Paste user feedback here..."
+              value={feedback}
+              onChange={e => setFeedback(e.target.value)}
             />
           </div>
           <div className="flex-1">
             <label className="block text-sm font-medium text-slate-700 mb-2">
               Generated Code
             </label>
-            <pre className="p-3 bg-slate-900 text-slate-100 rounded-lg text-sm">
-              <code>{/* Code will appear here... */}</code>
+            <pre className="p-3 bg-slate-900 text-slate-100 rounded-lg text-sm overflow-x-auto">
+              <code>{code || '// Code will appear here...'}</code>
             </pre>
           </div>
         </div>
-        <button className="w-full py-2 bg-primary hover:bg-primary-dark text-white rounded-lg transition-colors">
-          Generate Code
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating || !feedback.trim()}
+          className="w-full py-2 bg-primary hover:bg-primary-dark text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isGenerating ? 'Generating...' : 'Generate Code'}
         </button>
       </div>
     </div>
   );
-}; 
\ No newline at end of file
+}; 
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { loadStripe, type StripeEmbeddedCheckout } from '@stripe/stripe-js';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+
+const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!);
+
+interface EmbeddedCheckoutProps {
+  priceId: string;
+  currency?: string;
+  promotionCode?: string;
+}
+
+export function EmbeddedCheckout({ priceId, currency, promotionCode }: EmbeddedCheckoutProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    let checkout: StripeEmbeddedCheckout | null = null;
+
+    const fetchClientSecret = async () => {
+      const response = await fetchWithAuth('/api/stripe/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priceId, currency, promotionCode }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create checkout session');
+      }
+
+      return data.clientSecret as string;
+    };
+
+    const mountCheckout = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const stripe = await stripePromise;
+        if (!stripe) throw new Error('Stripe failed to load');
+
+        checkout = await stripe.initEmbeddedCheckout({ fetchClientSecret });
+
+        // The effect may have been cleaned up while Stripe was loading
+        if (isCancelled || !containerRef.current) {
+          checkout.destroy();
+          return;
+        }
+
+        checkout.mount(containerRef.current);
+      } catch (err) {
+        console.error('Embedded checkout error:', err);
+        if (!isCancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load checkout');
+        }
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+
+    mountCheckout();
+
+    return () => {
+      isCancelled = true;
+      checkout?.destroy();
+    };
+  }, [priceId, currency, promotionCode]);
+
+  return (
+    <div>
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      )}
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/30 rounded-lg text-center">
+          <p className="text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+      <div ref={containerRef} />
+    </div>
+  );
+}
@@ -4,29 +4,152 @@ import { useState } from 'react';
 import { ForgotPasswordModal } from './ForgotPasswordModal';
 import Image from 'next/image';
 
+type EmailSignInMode = 'password' | 'magic-link' | 'email-code';
+
+const EMAIL_SIGN_IN_MODES: { value: EmailSignInMode; label: string }[] = [
+  { value: 'password', label: 'Password' },
+  { value: 'magic-link', label: 'Magic link' },
+  { value: 'email-code', label: 'Email code' },
+];
+
 interface LoginFormProps {
   onSubmit: (email: string, password: string, isSignUp: boolean) => Promise<void>;
   onGoogleSignIn: () => Promise<void>;
+  // Passwordless handlers resolve to false when they failed and set `error`
+  onSendMagicLink: (email: string) => Promise<boolean>;
+  onSendEmailOtp: (email: string) => Promise<boolean>;
+  onVerifyEmailOtp: (email: string, code: string) => Promise<boolean>;
   isLoading: boolean;
   error?: string;
+  // Set once the password step is done for an account with a second factor
+  mfaRequired?: boolean;
+  onVerifyMfa?: (code: string, isRecoveryCode: boolean) => Promise<void>;
+  onCancelMfa?: () => Promise<void>;
 }
 
 export function LoginForm({ 
   onSubmit, 
   onGoogleSignIn, 
+  onSendMagicLink,
+  onSendEmailOtp,
+  onVerifyEmailOtp,
   isLoading, 
-  error 
+  error,
+  mfaRequired = false,
+  onVerifyMfa,
+  onCancelMfa
 }: LoginFormProps) {
   const [isSignUp, setIsSignUp] = useState(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isForgotPasswordOpen, setIsForgotPasswordOpen] = useState(false);
+  const [mode, setMode] = useState<EmailSignInMode>('password');
+  // Email the passwordless link or code went to, once sent
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [emailCode, setEmailCode] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await onSubmit(email, password, isSignUp);
+
+    if (mode === 'password') {
+      await onSubmit(email, password, isSignUp);
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      if (sentTo) {
+        await onVerifyEmailOtp(sentTo, emailCode.trim());
+        return;
+      }
+
+      const sent = mode === 'magic-link' ? await onSendMagicLink(email) : await onSendEmailOtp(email);
+      if (sent) setSentTo(email);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleModeChange = (newMode: EmailSignInMode) => {
+    setMode(newMode);
+    setSentTo(null);
+    setEmailCode('');
+  };
+
+  const handleVerifyMfa = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onVerifyMfa?.(mfaCode.trim(), useRecoveryCode);
   };
 
+  if (mfaRequired) {
+    return (
+      <div className="w-full space-y-8 p-8 bg-surface-light dark:bg-surface-dark rounded-2xl shadow-subtle border border-gray-200 dark:border-gray-700">
+        <div className="text-center space-y-2">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Two-factor authentication
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes. This turns off two-factor authentication so you can set it up again.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="text-red-500 text-center">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleVerifyMfa} className="space-y-6">
+          <input
+            type="text"
+            value={mfaCode}
+            onChange={(e) => setMfaCode(e.target.value)}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-800 text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all"
+          />
+
+          <button 
+            type="submit" 
+            disabled={isLoading || !mfaCode.trim()}
+            className="w-full py-2.5 px-4 border border-transparent rounded-full shadow-sm text-white bg-primary hover:bg-primary-dark disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-all"
+          >
+            Verify
+          </button>
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setMfaCode('');
+              }}
+              className="text-primary hover:text-primary-dark transition-colors"
+            >
+              {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+            </button>
+            {onCancelMfa && (
+              <button
+                type="button"
+                onClick={onCancelMfa}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+              >
+                Sign out
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full space-y-8 p-8 bg-surface-light dark:bg-surface-dark rounded-2xl shadow-subtle border border-gray-200 dark:border-gray-700">
       <div className="text-center">
@@ -68,10 +191,29 @@ export function LoginForm({
 
       <div className="text-center">
         <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
-          {isSignUp ? 'Create an account' : 'Are you an Email User?'}
+          {isSignUp && mode === 'password' ? 'Create an account' : 'Are you an Email User?'}
         </h2>
       </div>
 
+      <div className="flex justify-center">
+        <div className="inline-flex items-center rounded-full bg-gray-100 dark:bg-gray-700 p-1">
+          {EMAIL_SIGN_IN_MODES.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => handleModeChange(option.value)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${
+                mode === option.value
+                  ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow'
+                  : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <div className="rounded-md shadow-sm space-y-4">
           <input
@@ -79,49 +221,88 @@ export function LoginForm({
             value={email}
             onChange={(e) => setEmail(e.target.value)}
             placeholder="Email address"
-            className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all"
-          />
-          <input
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            placeholder="Password"
-            className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all"
+            disabled={!!sentTo}
+            className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-800 disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all"
           />
+          {mode === 'password' && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all"
+            />
+          )}
+          {mode === 'email-code' && sentTo && (
+            <input
+              type="text"
+              value={emailCode}
+              onChange={(e) => setEmailCode(e.target.value)}
+              placeholder="6-digit code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              className="appearance-none rounded-lg relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-800 text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition-all"
+            />
+          )}
         </div>
 
-        <div className="flex items-center justify-between">
-          <button
-            type="button"
-            onClick={() => setIsForgotPasswordOpen(true)}
-            className="text-sm text-primary hover:text-primary-dark transition-colors"
-          >
-            Forgot your password?
-          </button>
-        </div>
+        {sentTo && (
+          <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+            {mode === 'magic-link'
+              ? `We sent a sign-in link to ${sentTo}. Open it on this device to continue.`
+              : `We sent a 6-digit code to ${sentTo}.`}{' '}
+            <button
+              type="button"
+              onClick={() => handleModeChange(mode)}
+              className="text-primary hover:text-primary-dark transition-colors"
+            >
+              Use a different email
+            </button>
+          </p>
+        )}
+
+        {mode === 'password' && (
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => setIsForgotPasswordOpen(true)}
+              className="text-sm text-primary hover:text-primary-dark transition-colors"
+            >
+              Forgot your password?
+            </button>
+          </div>
+        )}
 
         <ForgotPasswordModal 
           isOpen={isForgotPasswordOpen}
           onClose={() => setIsForgotPasswordOpen(false)}
         />
 
-        <button 
-          type="submit" 
-          disabled={isLoading}
-          className="w-full py-2.5 px-4 border border-transparent rounded-full shadow-sm text-white bg-primary hover:bg-primary-dark disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-all"
-        >
-          {isSignUp ? 'Sign up' : 'Sign in'} with Email
-        </button>
-
-        <div className="text-center">
-          <button
-            type="button"
-            onClick={() => setIsSignUp(!isSignUp)}
-            className="text-primary hover:text-primary-dark transition-colors"
+        {!(mode === 'magic-link' && sentTo) && (
+          <button 
+            type="submit" 
+            disabled={isLoading || isSending}
+            className="w-full py-2.5 px-4 border border-transparent rounded-full shadow-sm text-white bg-primary hover:bg-primary-dark disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-all"
           >
-            {isSignUp ? 'Already have an account? Sign in' : 'Need an account? Sign up'}
+            {mode === 'password' && `${isSignUp ? 'Sign up' : 'Sign in'} with Email`}
+            {mode === 'magic-link' && 'Email me a sign-in link'}
+            {mode === 'email-code' && (sentTo ? 'Verify code' : 'Email me a code')}
           </button>
-        </div>
+        )}
+
+        {/* Passwordless sign-in creates the account on first use */}
+        {mode === 'password' && (
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => setIsSignUp(!isSignUp)}
+              className="text-primary hover:text-primary-dark transition-colors"
+            >
+              {isSignUp ? 'Already have an account? Sign in' : 'Need an account? Sign up'}
+            </button>
+          </div>
+        )}
       </form>
     </div>
   );
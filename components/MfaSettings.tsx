@@ -0,0 +1,205 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Factor } from '@supabase/supabase-js';
+import { Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useAuth, type TotpEnrollment } from '@/contexts/AuthContext';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+
+export function MfaSettings() {
+  const { listTotpFactors, enrollTotp, verifyTotpEnrollment, unenrollFactor } = useAuth();
+  const [factor, setFactor] = useState<Factor | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const factors = await listTotpFactors();
+      const verified = factors.find(f => f.status === 'verified') ?? null;
+      setFactor(verified);
+
+      if (verified) {
+        const response = await fetchWithAuth('/api/user/mfa/recovery-codes');
+        if (response.ok) {
+          const data = await response.json();
+          setRemainingCodes(data.remaining);
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listTotpFactors]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const generateRecoveryCodes = async () => {
+    const response = await fetchWithAuth('/api/user/mfa/recovery-codes', { method: 'POST' });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to generate recovery codes');
+    }
+
+    setRecoveryCodes(data.codes);
+    setRemainingCodes(data.codes.length);
+  };
+
+  const handleStartEnrollment = () => run(async () => {
+    setCode('');
+    setEnrollment(await enrollTotp());
+  });
+
+  const handleVerifyEnrollment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    return run(async () => {
+      await verifyTotpEnrollment(enrollment.factorId, code.trim());
+      setEnrollment(null);
+      setCode('');
+      await loadStatus();
+      await generateRecoveryCodes();
+    });
+  };
+
+  const handleDisable = () => {
+    if (!factor || !confirm('Turn off two-factor authentication? Your recovery codes will stop working.')) return;
+
+    return run(async () => {
+      await unenrollFactor(factor.id);
+      await fetchWithAuth('/api/user/mfa/recovery-codes', { method: 'DELETE' });
+      setFactor(null);
+      setRecoveryCodes(null);
+      setRemainingCodes(null);
+    });
+  };
+
+  if (isLoading) {
+    return <Loader2 size={20} className="animate-spin text-gray-500" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {factor ? (
+        <>
+          <p className="flex items-center gap-2 text-green-600 dark:text-green-400">
+            <ShieldCheck size={18} />
+            Enabled with an authenticator app
+          </p>
+
+          {recoveryCodes ? (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose your
+                authenticator app. They won&apos;t be shown again.
+              </p>
+              <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
+                {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+              </ul>
+            </div>
+          ) : remainingCodes !== null && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {remainingCodes} unused recovery {remainingCodes === 1 ? 'code' : 'codes'} left.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => run(generateRecoveryCodes)}
+              disabled={isWorking}
+              className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+            >
+              New Recovery Codes
+            </button>
+            <button
+              onClick={handleDisable}
+              disabled={isWorking}
+              className="text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-50"
+            >
+              <ShieldOff size={16} />
+              Turn Off
+            </button>
+          </div>
+        </>
+      ) : enrollment ? (
+        <form onSubmit={handleVerifyEnrollment} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          {/* Supabase returns the QR code as an SVG data URI */}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={enrollment.qrCode} alt="Authenticator QR code" width={180} height={180} className="bg-white rounded-lg p-2" />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+          </p>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            className="w-40 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 tracking-widest"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isWorking || !code.trim()}
+              className="bg-primary hover:bg-primary-dark text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-50"
+            >
+              {isWorking && <Loader2 size={16} className="animate-spin" />}
+              Verify and Enable
+            </button>
+            <button
+              type="button"
+              onClick={() => setEnrollment(null)}
+              disabled={isWorking}
+              className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Protect your account with a code from an authenticator app when you sign in, delete your account or change
+            your billing.
+          </p>
+          <button
+            onClick={handleStartEnrollment}
+            disabled={isWorking}
+            className="bg-primary hover:bg-primary-dark text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-50"
+          >
+            {isWorking ? <Loader2 size={16} className="animate-spin" /> : <ShieldCheck size={16} />}
+            Set Up Authenticator App
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
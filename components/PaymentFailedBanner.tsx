@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBillingPortal } from '@/hooks/useBillingPortal';
+import type { Subscription } from '@/hooks/useSubscription';
+
+interface PaymentFailedBannerProps {
+  subscription: Subscription;
+}
+
+export function PaymentFailedBanner({ subscription }: PaymentFailedBannerProps) {
+  const { supabase } = useAuth();
+  const [invoiceUrl, setInvoiceUrl] = useState<string | null>(null);
+  const { openBillingPortal, isOpening } = useBillingPortal();
+
+  // The open invoice's hosted page lets the customer settle it right away
+  useEffect(() => {
+    const fetchOpenInvoice = async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('hosted_invoice_url')
+        .eq('stripe_subscription_id', subscription.stripe_subscription_id)
+        .eq('status', 'open')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching open invoice:', error);
+        return;
+      }
+
+      setInvoiceUrl(data?.hosted_invoice_url ?? null);
+    };
+
+    fetchOpenInvoice();
+  }, [supabase, subscription.stripe_subscription_id]);
+
+  return (
+    <div className="mb-8 p-4 bg-red-50 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-800">
+      <p className="font-medium text-red-600 dark:text-red-400">
+        Payment failed — update your card
+      </p>
+      <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+        We couldn&apos;t charge your card for your latest invoice
+        {subscription.dunning_attempt_count > 0 && ` (attempt ${subscription.dunning_attempt_count})`}.
+        {subscription.dunning_next_retry_at && (
+          <> We&apos;ll try again on {new Date(subscription.dunning_next_retry_at).toLocaleDateString()}.</>
+        )}
+        {subscription.grace_period_ends_at && (
+          <> Your access continues until {new Date(subscription.grace_period_ends_at).toLocaleDateString()}.</>
+        )}
+      </p>
+      <div className="mt-3 flex flex-wrap gap-3">
+        <button
+          onClick={openBillingPortal}
+          disabled={isOpening}
+          className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+        >
+          {isOpening ? 'Opening...' : 'Update Payment Method'}
+        </button>
+        {invoiceUrl && (
+          <a
+            href={invoiceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-4 py-2 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-lg"
+          >
+            Pay Open Invoice
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
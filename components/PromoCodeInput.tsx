@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { Tag, X, Loader2 } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import { formatDiscount } from '@/utils/discounts';
+import type { AppliedPromo } from '@/types/PromoTypes';
+
+interface PromoCodeInputProps {
+  priceId?: string;
+  appliedPromo: AppliedPromo | null;
+  onChange: (promo: AppliedPromo | null) => void;
+  disabled?: boolean;
+}
+
+export function PromoCodeInput({ priceId, appliedPromo, onChange, disabled }: PromoCodeInputProps) {
+  const [code, setCode] = useState('');
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+
+    setIsValidating(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth('/api/stripe/promo/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, priceId }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to validate promo code');
+      }
+
+      onChange({ code: data.code, discount: data.discount });
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to validate promo code');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  if (appliedPromo) {
+    return (
+      <div className="flex items-center justify-between gap-3 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg text-sm">
+        <div className="flex items-center gap-2 text-green-700 dark:text-green-400">
+          <Tag size={16} />
+          <span>
+            <span className="font-medium">{appliedPromo.code}</span> — {formatDiscount(appliedPromo.discount)}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+          aria-label="Remove promo code"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleApply()}
+          placeholder="Promo code"
+          disabled={disabled || isValidating}
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={disabled || isValidating || !code.trim()}
+          className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isValidating && <Loader2 size={14} className="animate-spin" />}
+          Apply
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import type { ReconciliationReport } from '@/types/ReconciliationTypes';
+
+export function ReconciliationPanel() {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async (dryRun: boolean) => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth('/api/admin/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to run reconciliation');
+      }
+
+      setReport(data.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run reconciliation');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Compares every Stripe subscription with the database and fixes any drift. Also runs nightly.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleRun(false)}
+          disabled={isRunning}
+          className="bg-primary hover:bg-primary-dark text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-50"
+        >
+          {isRunning ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+          Run Reconciliation
+        </button>
+        <button
+          onClick={() => handleRun(true)}
+          disabled={isRunning}
+          className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+        >
+          Dry Run
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {report && (
+        <div className="text-sm space-y-2">
+          {report.status === 'running' && (
+            <p className="text-gray-500 dark:text-gray-400">
+              {report.dryRun ? 'Dry run' : 'Run'} still in progress, it will be finished in the background. Run again to
+              continue it now.
+            </p>
+          )}
+          <p>
+            Checked {report.subscriptionsChecked} subscriptions and {report.customersChecked} customers{report.status === 'running' && ' so far'}.{' '}
+            {report.discrepancyCount === 0
+              ? 'No discrepancies found.'
+              : `Found ${report.discrepancyCount} discrepancies${report.dryRun ? '' : `, fixed ${report.fixedCount}`}.`}
+          </p>
+
+          {report.discrepancies.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-64 overflow-y-auto">
+              {report.discrepancies.map((discrepancy, index) => (
+                <li key={`${discrepancy.stripeSubscriptionId}-${discrepancy.type}-${index}`} className="py-2 flex justify-between gap-4">
+                  <span>
+                    <span className="font-mono">{discrepancy.stripeSubscriptionId}</span>
+                    <span className="ml-2 text-gray-500 dark:text-gray-400">{discrepancy.type.replace(/_/g, ' ')}</span>
+                  </span>
+                  <span className={discrepancy.fixed ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}>
+                    {discrepancy.fixed ? 'Fixed' : 'Not fixed'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Users, X, Loader2 } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import type { Subscription } from '@/hooks/useSubscription';
+
+interface TeamMember {
+  id: string;
+  email: string;
+  user_id: string | null;
+  created_at: string;
+}
+
+interface SeatManagerProps {
+  subscription: Subscription;
+  onSeatsChange: () => Promise<void> | void;
+}
+
+export function SeatManager({ subscription, onSeatsChange }: SeatManagerProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [seatInput, setSeatInput] = useState(subscription.seats);
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdatingSeats, setIsUpdatingSeats] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The owner always takes one seat
+  const used = members.length + 1;
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/team/members');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load team members');
+      }
+
+      setMembers(data.members);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load team members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  useEffect(() => {
+    setSeatInput(subscription.seats);
+  }, [subscription.seats]);
+
+  const handleUpdateSeats = async () => {
+    setIsUpdatingSeats(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth('/api/stripe/seats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subscriptionId: subscription.stripe_subscription_id,
+          seats: seatInput
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update seats');
+      }
+
+      await onSeatsChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update seats');
+      setSeatInput(subscription.seats);
+    } finally {
+      setIsUpdatingSeats(false);
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!email.trim()) return;
+
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth('/api/team/members', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add team member');
+      }
+
+      setMembers(current => [...current, data.member]);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add team member');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    setRemovingId(memberId);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth(`/api/team/members?id=${encodeURIComponent(memberId)}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove team member');
+      }
+
+      setMembers(current => current.filter(member => member.id !== memberId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove team member');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const seatsFull = used >= subscription.seats;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="flex items-center gap-2">
+        <Users size={18} />
+        <h3 className="font-medium">Team Seats</h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {used} of {subscription.seats} in use
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={Math.max(used, 1)}
+          value={seatInput}
+          onChange={e => setSeatInput(Number(e.target.value))}
+          disabled={isUpdatingSeats}
+          className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm"
+          aria-label="Number of seats"
+        />
+        <button
+          onClick={handleUpdateSeats}
+          disabled={isUpdatingSeats || seatInput === subscription.seats || seatInput < used}
+          className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-50"
+        >
+          {isUpdatingSeats ? (
+            <>
+              <Loader2 size={16} className="animate-spin" />
+              Updating...
+            </>
+          ) : (
+            'Update Seats'
+          )}
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Seat changes are prorated on your next invoice.
+      </p>
+
+      {isLoading ? (
+        <Loader2 size={16} className="animate-spin text-gray-400" />
+      ) : members.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {members.map(member => (
+            <li key={member.id} className="flex items-center justify-between py-2 text-sm">
+              <span>
+                {member.email}
+                {!member.user_id && (
+                  <span className="ml-2 text-gray-500 dark:text-gray-400">(hasn&apos;t signed up yet)</span>
+                )}
+              </span>
+              <button
+                onClick={() => handleRemoveMember(member.id)}
+                disabled={removingId === member.id}
+                className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-50"
+                aria-label={`Remove ${member.email}`}
+              >
+                {removingId === member.id ? <Loader2 size={16} className="animate-spin" /> : <X size={16} />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && !seatsFull && handleAddMember()}
+          placeholder="teammate@example.com"
+          disabled={isAdding || seatsFull}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm disabled:opacity-50"
+        />
+        <button
+          onClick={handleAddMember}
+          disabled={isAdding || seatsFull || !email.trim()}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+        >
+          {isAdding ? 'Adding...' : 'Add Member'}
+        </button>
+      </div>
+      {seatsFull && (
+        <p className="text-sm text-yellow-600 dark:text-yellow-400">
+          All seats are in use. Add seats to invite more teammates.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useTrialStatus } from '@/hooks/useTrialStatus';
+import { useBillingPortal } from '@/hooks/useBillingPortal';
 // import { supabase } from '@/utils/supabase';
 
 // TopBar component handles user profile display and navigation
@@ -16,7 +17,8 @@ export default function TopBar() {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const { subscription, isLoading: isLoadingSubscription } = useSubscription();
-  const { isInTrial } = useTrialStatus();
+  const { isInTrial, trialDaysLeft, reminderSent } = useTrialStatus();
+  const { openBillingPortal, isOpening: isOpeningPortal } = useBillingPortal();
 
   // State for tracking logout process
   const [isLoggingOut, setIsLoggingOut] = useState(false);
@@ -70,6 +72,21 @@ export default function TopBar() {
           ) : (
             // Show subscription and profile for authenticated users
             <>
+              {isInTrial && trialDaysLeft !== null && (
+                <Link
+                  href="/profile"
+                  className={`hidden sm:block px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    reminderSent
+                      ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300'
+                      : 'bg-primary/10 text-primary dark:bg-primary/20 dark:text-primary-light'
+                  }`}
+                >
+                  {trialDaysLeft === 0
+                    ? 'Trial ends today'
+                    : `Trial: ${trialDaysLeft} ${trialDaysLeft === 1 ? 'day' : 'days'} left`}
+                </Link>
+              )}
+
               {!isLoadingSubscription && (!isInTrial) && (
                 !subscription || 
                 subscription.status === 'canceled' || 
@@ -90,7 +107,7 @@ export default function TopBar() {
                   onClick={() => router.push('/dashboard')}
                   className="hidden sm:block px-4 py-2 bg-primary hover:bg-primary-dark text-white rounded-full text-sm font-medium transition-colors shadow-subtle hover:shadow-hover"
                 >
-                  {isInTrial ? "Start Free Trial" : "Start Building"}
+                  Start Building
                 </button>
               )}
               
@@ -117,6 +134,15 @@ export default function TopBar() {
                     >
                       Profile & Subscription
                     </Link>
+                    {subscription && (
+                      <button
+                        onClick={openBillingPortal}
+                        disabled={isOpeningPortal}
+                        className="block w-full text-left px-4 py-2 text-sm text-text dark:text-text-dark hover:bg-neutral dark:hover:bg-neutral-dark disabled:opacity-50"
+                      >
+                        {isOpeningPortal ? 'Opening...' : 'Manage Billing'}
+                      </button>
+                    )}
                     <button
                       onClick={handleLogout}
                       disabled={isLoggingOut}
@@ -1,10 +1,28 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { CheckCircle2, ArrowUp, Loader2 } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import { usePlans } from '@/hooks/usePlans';
+import { BillingIntervalToggle } from '@/components/BillingIntervalToggle';
+import { PromoCodeInput } from '@/components/PromoCodeInput';
+import { formatCurrency } from '@/utils/currency';
+import {
+  formatPlanInterval,
+  formatPlanPrice,
+  getMaxYearlySavingsPercent,
+  getPlanPrice,
+  getYearlySavingsPercent,
+  hasYearlyPrices,
+  isIntervalChange,
+  isPlanDowngrade,
+  supportsCurrency
+} from '@/utils/plans';
+import type { PlanInterval } from '@/types/PlanTypes';
+import type { AppliedPromo } from '@/types/PromoTypes';
 
-interface Plan {
+interface PlanOption {
   id: string;
   name: string;
   priceId: string; // Stripe Price ID
@@ -14,57 +32,82 @@ interface Plan {
   features: string[];
   popular?: boolean;
   current?: boolean;
+  isSamePlan: boolean;
+  isUpgrade: boolean;
+  isDowngrade: boolean;
+  changesInterval: boolean;
+  savingsPercent: number;
+}
+
+interface ProrationPreview {
+  prorationAmount: number;
+  nextInvoiceTotal: number;
+  nextInvoiceDate: string;
+  currency: string;
+  prorationDate: number;
+  chargedNow: boolean;
 }
 
 interface UpgradePlansProps {
-  currentPlan: string;
-  onUpgrade: (priceId: string, planName: string) => Promise<void>;
+  currentPriceId: string | null;
+  currency: string | null; // The subscription's currency, plan changes have to stay in it
+  subscriptionId: string;
+  onUpgrade: (priceId: string, planName: string, prorationDate?: number, promotionCode?: string) => Promise<void>;
   isUpgrading: boolean;
 }
 
-export function UpgradePlans({ currentPlan, onUpgrade, isUpgrading }: UpgradePlansProps) {
+export function UpgradePlans({ currentPriceId, currency, subscriptionId, onUpgrade, isUpgrading }: UpgradePlansProps) {
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
-  const [confirmationPlan, setConfirmationPlan] = useState<Plan | null>(null);
-
-  // Define your available plans with their Stripe Price IDs
-  const plans: Plan[] = [
-    {
-      id: 'pro',
-      name: 'Pro',
-      priceId: process.env.NEXT_PUBLIC_STRIPE_PRO_PRICE_ID!, // Your Stripe Price ID
-      price: '$19',
-      interval: '/month',
-      description: 'Perfect for small teams and startups',
-      features: [
-        'All template features',
-        'Priority support',
-        'Custom branding',
-        'Analytics dashboard',
-        'Team collaboration'
-      ],
-      current: currentPlan === 'pro'
-    },
-    {
-      id: 'enterprise',
-      name: 'Enterprise',
-      priceId: process.env.NEXT_PUBLIC_STRIPE_ENTERPRISE_PRICE_ID!, // Your Stripe Price ID
-      price: '$49',
-      interval: '/month',
-      description: 'For larger organizations',
-      features: [
-        'Everything in Pro',
-        'Advanced security',
-        'Custom integrations',
-        '24/7 support',
-        'SLA guarantee'
-      ],
-      popular: true,
-      current: currentPlan === 'enterprise'
-    }
-  ];
+  const [confirmationPlan, setConfirmationPlan] = useState<PlanOption | null>(null);
+  const [preview, setPreview] = useState<ProrationPreview | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+
+  const [pickedInterval, setPickedInterval] = useState<PlanInterval | null>(null);
+  const { plans: catalog, isLoading: isLoadingPlans, error: plansError } = usePlans();
+
+  const currentPlan = catalog.find(plan => plan.prices.some(price => price.id === currentPriceId));
+  const currentPrice = currentPlan?.prices.find(price => price.id === currentPriceId);
+  // Start on the interval the customer is already billed on
+  const billingInterval = pickedInterval ?? currentPrice?.interval ?? 'month';
+  const billingCurrency = currency ?? currentPrice?.currency ?? null;
+
+  // Sales-led plans can't be switched to from here
+  const plans: PlanOption[] = catalog
+    .filter(plan => !plan.contactSales)
+    .flatMap(plan => {
+      const price = getPlanPrice(plan, billingInterval);
+      if (!price || (billingCurrency && !supportsCurrency(price, billingCurrency))) return [];
+
+      const current = price.id === currentPriceId;
+      const isDowngrade = !current && !!currentPlan && !!currentPrice &&
+        isPlanDowngrade(
+          { productId: currentPlan.productId, price: currentPrice },
+          { productId: plan.productId, price }
+        );
+
+      return [{
+        id: plan.id,
+        name: plan.name,
+        priceId: price.id,
+        price: formatPlanPrice(price, billingCurrency ?? undefined),
+        interval: formatPlanInterval(price),
+        description: plan.description,
+        features: plan.features,
+        popular: plan.popular,
+        current,
+        isSamePlan: plan.productId === currentPlan?.productId,
+        isUpgrade: !current && !isDowngrade,
+        isDowngrade,
+        changesInterval: !!currentPrice && isIntervalChange(currentPrice, price),
+        savingsPercent: price.interval === 'year' ? getYearlySavingsPercent(plan) : 0
+      }];
+    });
 
-  const handlePlanClick = (plan: Plan) => {
+  const handlePlanClick = (plan: PlanOption) => {
     if (plan.current || isUpgrading) return;
+    setAppliedPromo(null);
     setConfirmationPlan(plan);
   };
 
@@ -73,7 +116,7 @@ export function UpgradePlans({ currentPlan, onUpgrade, isUpgrading }: UpgradePla
     
     setSelectedPlan(confirmationPlan.id);
     try {
-      await onUpgrade(confirmationPlan.priceId, confirmationPlan.name);
+      await onUpgrade(confirmationPlan.priceId, confirmationPlan.name, preview?.prorationDate, appliedPromo?.code);
       setConfirmationPlan(null);
     } finally {
       setSelectedPlan(null);
@@ -86,17 +129,57 @@ export function UpgradePlans({ currentPlan, onUpgrade, isUpgrading }: UpgradePla
     }
   };
 
-  const isCurrentPlanUpgradable = (planId: string) => {
-    const currentIndex = plans.findIndex(p => p.current);
-    const targetIndex = plans.findIndex(p => p.id === planId);
-    return targetIndex > currentIndex;
-  };
+  const isConfirmingDowngrade = !!confirmationPlan?.isDowngrade;
 
-  const isCurrentPlanDowngradable = (planId: string) => {
-    const currentIndex = plans.findIndex(p => p.current);
-    const targetIndex = plans.findIndex(p => p.id === planId);
-    return targetIndex < currentIndex;
-  };
+  // Ask Stripe what the change will cost before the user commits
+  useEffect(() => {
+    // Downgrades wait for period end, so there's nothing to prorate
+    if (!confirmationPlan || isConfirmingDowngrade) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const fetchPreview = async () => {
+      setIsLoadingPreview(true);
+      setPreviewError(null);
+
+      try {
+        const response = await fetchWithAuth('/api/stripe/upgrade/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            subscriptionId,
+            newPriceId: confirmationPlan.priceId,
+            promotionCode: appliedPromo?.code
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to preview plan change');
+        }
+
+        if (!isCancelled) setPreview(data);
+      } catch (error) {
+        console.error('Error previewing plan change:', error);
+        if (!isCancelled) {
+          setPreviewError(error instanceof Error ? error.message : 'Failed to preview plan change');
+        }
+      } finally {
+        if (!isCancelled) setIsLoadingPreview(false);
+      }
+    };
+
+    fetchPreview();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [confirmationPlan, isConfirmingDowngrade, subscriptionId, appliedPromo]);
 
   return (
     <div className="space-y-6">
@@ -107,119 +190,140 @@ export function UpgradePlans({ currentPlan, onUpgrade, isUpgrading }: UpgradePla
         </p>
       </div>
 
-      <div className="grid md:grid-cols-2 gap-6">
-        {plans.map((plan) => {
-          const canUpgrade = isCurrentPlanUpgradable(plan.id);
-          const canDowngrade = isCurrentPlanDowngradable(plan.id);
-          const canChange = canUpgrade || canDowngrade;
-          const isCurrentlyUpgrading = selectedPlan === plan.id && isUpgrading;
-          
-          return (
-            <motion.div
-              key={plan.id}
-              className={`relative border rounded-lg p-6 ${
-                plan.popular 
-                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' 
-                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
-              }`}
-              whileHover={{ scale: canChange ? 1.02 : 1 }}
-              transition={{ duration: 0.2 }}
-            >
-              {plan.popular && (
-                <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
-                  <span className="bg-blue-500 text-white px-3 py-1 text-sm rounded-full">
-                    Most Popular
-                  </span>
-                </div>
-              )}
-              
-              {plan.current && (
-                <div className="absolute -top-3 right-4">
-                  <span className="bg-green-500 text-white px-3 py-1 text-sm rounded-full flex items-center gap-1">
-                    <CheckCircle2 size={12} />
-                    Current Plan
-                  </span>
-                </div>
-              )}
-
-              <div className="text-center mb-6">
-                <h4 className="text-xl font-bold mb-2">{plan.name}</h4>
-                <p className="text-gray-600 dark:text-gray-300 mb-4">{plan.description}</p>
-                <div className="text-3xl font-bold">
-                  {plan.price}
-                  <span className="text-sm font-normal text-gray-500">
-                    {plan.interval}
-                  </span>
-                </div>
-              </div>
-
-              <ul className="space-y-2 mb-6">
-                {plan.features.map((feature, index) => (
-                  <li key={index} className="flex items-center gap-2">
-                    <CheckCircle2 size={16} className="text-green-500 flex-shrink-0" />
-                    <span className="text-sm">{feature}</span>
-                  </li>
-                ))}
-              </ul>
+      {hasYearlyPrices(catalog) && (
+        <BillingIntervalToggle
+          interval={billingInterval}
+          onChange={setPickedInterval}
+          savingsPercent={getMaxYearlySavingsPercent(catalog)}
+        />
+      )}
 
-              <div className="text-center">
-                {plan.current ? (
-                  <div className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-500 rounded-lg">
-                    Your Current Plan
+      {isLoadingPlans ? (
+        <div className="flex justify-center py-8">
+          <Loader2 size={24} className="animate-spin text-gray-500" />
+        </div>
+      ) : plansError ? (
+        <p className="text-center text-red-600 dark:text-red-400">{plansError}</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          {plans.map((plan) => {
+            const canUpgrade = plan.isUpgrade;
+            const canDowngrade = plan.isDowngrade;
+            const canChange = canUpgrade || canDowngrade;
+            const isCurrentlyUpgrading = selectedPlan === plan.id && isUpgrading;
+            
+            return (
+              <motion.div
+                key={plan.id}
+                className={`relative border rounded-lg p-6 ${
+                  plan.popular 
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' 
+                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
+                }`}
+                whileHover={{ scale: canChange ? 1.02 : 1 }}
+                transition={{ duration: 0.2 }}
+              >
+                {plan.popular && (
+                  <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
+                    <span className="bg-blue-500 text-white px-3 py-1 text-sm rounded-full">
+                      Most Popular
+                    </span>
                   </div>
-                ) : canUpgrade ? (
-                  <button
-                    onClick={() => handlePlanClick(plan)}
-                    disabled={isUpgrading}
-                    className="w-full px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-400 text-white rounded-lg flex items-center justify-center gap-2 transition-colors"
-                  >
-                    {isCurrentlyUpgrading ? (
-                      <>
-                        <Loader2 size={16} className="animate-spin" />
-                        Upgrading...
-                      </>
-                    ) : (
-                      <>
-                        <ArrowUp size={16} />
-                        Upgrade to {plan.name}
-                      </>
-                    )}
-                  </button>
-                ) : canDowngrade ? (
-                  <button
-                    onClick={() => handlePlanClick(plan)}
-                    disabled={isUpgrading}
-                    className="w-full px-4 py-2 bg-orange-500 hover:bg-orange-600 disabled:bg-orange-400 text-white rounded-lg flex items-center justify-center gap-2 transition-colors"
-                  >
-                    {isCurrentlyUpgrading ? (
-                      <>
-                        <Loader2 size={16} className="animate-spin" />
-                        Downgrading...
-                      </>
-                    ) : (
-                      <>
-                        <ArrowUp size={16} className="rotate-180" />
-                        Downgrade to {plan.name}
-                      </>
-                    )}
-                  </button>
-                ) : (
-                  <div className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-500 rounded-lg">
-                    Lower Tier
+                )}
+                
+                {plan.current && (
+                  <div className="absolute -top-3 right-4">
+                    <span className="bg-green-500 text-white px-3 py-1 text-sm rounded-full flex items-center gap-1">
+                      <CheckCircle2 size={12} />
+                      Current Plan
+                    </span>
                   </div>
                 )}
-              </div>
-            </motion.div>
-          );
-        })}
-      </div>
+
+                <div className="text-center mb-6">
+                  <h4 className="text-xl font-bold mb-2">{plan.name}</h4>
+                  <p className="text-gray-600 dark:text-gray-300 mb-4">{plan.description}</p>
+                  <div className="text-3xl font-bold">
+                    {plan.price}
+                    <span className="text-sm font-normal text-gray-500">
+                      {plan.interval}
+                    </span>
+                  </div>
+                  {plan.savingsPercent > 0 && (
+                    <p className="mt-1 text-sm text-green-600 dark:text-green-400">
+                      Save {plan.savingsPercent}% with yearly billing
+                    </p>
+                  )}
+                </div>
+
+                <ul className="space-y-2 mb-6">
+                  {plan.features.map((feature, index) => (
+                    <li key={index} className="flex items-center gap-2">
+                      <CheckCircle2 size={16} className="text-green-500 flex-shrink-0" />
+                      <span className="text-sm">{feature}</span>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="text-center">
+                  {plan.current ? (
+                    <div className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-500 rounded-lg">
+                      Your Current Plan
+                    </div>
+                  ) : canUpgrade ? (
+                    <button
+                      onClick={() => handlePlanClick(plan)}
+                      disabled={isUpgrading}
+                      className="w-full px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-400 text-white rounded-lg flex items-center justify-center gap-2 transition-colors"
+                    >
+                      {isCurrentlyUpgrading ? (
+                        <>
+                          <Loader2 size={16} className="animate-spin" />
+                          Upgrading...
+                        </>
+                      ) : (
+                        <>
+                          <ArrowUp size={16} />
+                          {plan.isSamePlan ? 'Switch to Yearly Billing' : `Upgrade to ${plan.name}`}
+                        </>
+                      )}
+                    </button>
+                  ) : canDowngrade ? (
+                    <button
+                      onClick={() => handlePlanClick(plan)}
+                      disabled={isUpgrading}
+                      className="w-full px-4 py-2 bg-orange-500 hover:bg-orange-600 disabled:bg-orange-400 text-white rounded-lg flex items-center justify-center gap-2 transition-colors"
+                    >
+                      {isCurrentlyUpgrading ? (
+                        <>
+                          <Loader2 size={16} className="animate-spin" />
+                          Downgrading...
+                        </>
+                      ) : (
+                        <>
+                          <ArrowUp size={16} className="rotate-180" />
+                          {plan.isSamePlan ? 'Switch to Monthly Billing' : `Downgrade to ${plan.name}`}
+                        </>
+                      )}
+                    </button>
+                  ) : (
+                    <div className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-500 rounded-lg">
+                      Lower Tier
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
 
       <div className="text-center text-sm text-gray-500 dark:text-gray-400">
         <p>
-          * Plan changes are prorated. For upgrades, you&apos;ll pay the difference. For downgrades, you&apos;ll receive credit.
+          * Upgrades are prorated and you&apos;ll pay the difference. Downgrades take effect at the end of your billing period.
         </p>
         <p className="mt-1">
-          Your next billing date will remain the same.
+          Your next billing date will remain the same, unless you switch between monthly and yearly billing.
         </p>
       </div>
 
@@ -233,30 +337,77 @@ export function UpgradePlans({ currentPlan, onUpgrade, isUpgrading }: UpgradePla
           >
             <div className="text-center mb-6">
               <h4 className="text-xl font-bold mb-2">
-                {isCurrentPlanUpgradable(confirmationPlan.id) ? 'Confirm Upgrade' : 'Confirm Downgrade'}
+                {confirmationPlan.isUpgrade ? 'Confirm Upgrade' : 'Confirm Downgrade'}
               </h4>
               <p className="text-gray-600 dark:text-gray-300">
-                {isCurrentPlanUpgradable(confirmationPlan.id) 
+                {confirmationPlan.isUpgrade 
                   ? `Upgrade to ${confirmationPlan.name} for ${confirmationPlan.price}${confirmationPlan.interval}?`
                   : `Downgrade to ${confirmationPlan.name} for ${confirmationPlan.price}${confirmationPlan.interval}?`
                 }
               </p>
             </div>
 
+            {confirmationPlan.isUpgrade && (
+              <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 mb-4">
+                {isLoadingPreview ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    <Loader2 size={16} className="animate-spin" />
+                    Calculating prorated amount...
+                  </div>
+                ) : previewError ? (
+                  <p className="text-sm text-red-600 dark:text-red-400">{previewError}</p>
+                ) : preview && (
+                  <dl className="text-sm space-y-2">
+                    <div className="flex justify-between">
+                      <dt className="text-gray-600 dark:text-gray-300">
+                        {preview.prorationAmount < 0 ? 'Prorated credit' : 'Prorated charge'}
+                      </dt>
+                      <dd className="font-medium">
+                        {formatCurrency(Math.abs(preview.prorationAmount), preview.currency)}
+                      </dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-600 dark:text-gray-300">
+                        {preview.chargedNow
+                          ? 'Due today'
+                          : `Next invoice on ${new Date(preview.nextInvoiceDate).toLocaleDateString()}`}
+                      </dt>
+                      <dd className="font-medium">
+                        {formatCurrency(preview.nextInvoiceTotal, preview.currency)}
+                      </dd>
+                    </div>
+                  </dl>
+                )}
+              </div>
+            )}
+
+            <div className="mb-4">
+              <PromoCodeInput
+                priceId={confirmationPlan.priceId}
+                appliedPromo={appliedPromo}
+                onChange={setAppliedPromo}
+                disabled={isUpgrading}
+              />
+            </div>
+
             <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 mb-6">
               <h5 className="font-medium mb-2">What happens next:</h5>
               <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
-                {isCurrentPlanUpgradable(confirmationPlan.id) ? (
+                {confirmationPlan.isUpgrade ? (
                   <>
                     <li>• You&apos;ll be charged the prorated difference</li>
-                    <li>• Your billing date stays the same</li>
+                    {confirmationPlan.changesInterval ? (
+                      <li>• Your billing period restarts today</li>
+                    ) : (
+                      <li>• Your billing date stays the same</li>
+                    )}
                     <li>• New features activate immediately</li>
                   </>
                 ) : (
                   <>
-                    <li>• You&apos;ll receive prorated credit</li>
+                    <li>• You keep your current plan until the end of this billing period</li>
                     <li>• Your billing date stays the same</li>
-                    <li>• Changes take effect immediately</li>
+                    <li>• You can undo the change from your profile before it happens</li>
                   </>
                 )}
               </ul>
@@ -272,9 +423,9 @@ export function UpgradePlans({ currentPlan, onUpgrade, isUpgrading }: UpgradePla
               </button>
               <button
                 onClick={handleConfirmChange}
-                disabled={isUpgrading}
+                disabled={isUpgrading || isLoadingPreview}
                 className={`px-4 py-2 text-white rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50 ${
-                  isCurrentPlanUpgradable(confirmationPlan.id)
+                  confirmationPlan.isUpgrade
                     ? 'bg-blue-500 hover:bg-blue-600'
                     : 'bg-orange-500 hover:bg-orange-600'
                 }`}
@@ -282,11 +433,11 @@ export function UpgradePlans({ currentPlan, onUpgrade, isUpgrading }: UpgradePla
                 {selectedPlan === confirmationPlan.id && isUpgrading ? (
                   <>
                     <Loader2 size={16} className="animate-spin" />
-                    {isCurrentPlanUpgradable(confirmationPlan.id) ? 'Upgrading...' : 'Downgrading...'}
+                    {confirmationPlan.isUpgrade ? 'Upgrading...' : 'Downgrading...'}
                   </>
                 ) : (
                   <>
-                    {isCurrentPlanUpgradable(confirmationPlan.id) ? 'Confirm Upgrade' : 'Confirm Downgrade'}
+                    {confirmationPlan.isUpgrade ? 'Confirm Upgrade' : 'Confirm Downgrade'}
                   </>
                 )}
               </button>
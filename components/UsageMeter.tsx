@@ -0,0 +1,50 @@
+'use client';
+
+import { Gauge } from 'lucide-react';
+import { formatCurrency } from '@/utils/currency';
+import type { CurrentUsage } from '@/types/UsageTypes';
+
+interface UsageMeterProps {
+  usage: CurrentUsage | null;
+  isLoading: boolean;
+}
+
+export function UsageMeter({ usage, isLoading }: UsageMeterProps) {
+  return (
+    <div className="bg-white dark:bg-neutral-dark rounded-xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+          Usage This Period
+        </h3>
+        <Gauge className="h-5 w-5 text-slate-400" />
+      </div>
+
+      {isLoading ? (
+        <div className="h-12 animate-pulse bg-slate-100 dark:bg-slate-800 rounded-lg" />
+      ) : usage ? (
+        <>
+          <p className="text-3xl font-bold text-slate-900 dark:text-white">
+            {usage.quantity.toLocaleString()}
+            <span className="ml-2 text-sm font-normal text-slate-500 dark:text-slate-400">
+              {usage.quantity === 1 ? 'generation' : 'generations'}
+            </span>
+          </p>
+          {usage.unitAmount !== null && (
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+              {formatCurrency(usage.quantity * usage.unitAmount, usage.currency)} so far
+              {' '}at {formatCurrency(usage.unitAmount, usage.currency)} each
+            </p>
+          )}
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+            {usage.periodStart && `${new Date(usage.periodStart).toLocaleDateString()} – `}
+            billed on {new Date(usage.periodEnd).toLocaleDateString()}
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Your plan doesn&apos;t include usage-based billing.
+        </p>
+      )}
+    </div>
+  );
+}
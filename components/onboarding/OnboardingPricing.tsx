@@ -2,88 +2,46 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle2 } from 'lucide-react';
+import { CheckCircle2, ArrowLeft } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/utils/supabase';
+import { EmbeddedCheckout } from '@/components/EmbeddedCheckout';
+import { usePlans } from '@/hooks/usePlans';
+import { useTrialStatus } from '@/hooks/useTrialStatus';
+import { TRIAL_DAYS, TRIAL_MODE } from '@/utils/trial-config';
+import { useCurrency } from '@/hooks/useCurrency';
+import { BillingIntervalToggle } from '@/components/BillingIntervalToggle';
+import { CurrencySelector } from '@/components/CurrencySelector';
+import { PromoCodeInput } from '@/components/PromoCodeInput';
+import {
+  formatPlanInterval,
+  formatPlanPrice,
+  getMaxYearlySavingsPercent,
+  getPlanCurrencies,
+  getPlanPrice,
+  getYearlySavingsPercent,
+  hasYearlyPrices
+} from '@/utils/plans';
+import type { Plan, PlanInterval } from '@/types/PlanTypes';
+import type { AppliedPromo } from '@/types/PromoTypes';
 
 interface OnboardingPricingProps {
   userId: string;
-  userEmail: string;
 }
 
-interface PricingTier {
-  id: string;
-  name: string;
-  price: string;
-  interval?: string;
-  description: string;
-  features: string[];
-  popular: boolean;
-  stripePaymentLink: string | null;
-  cta: string;
-}
-
-export function OnboardingPricing({ userId, userEmail }: OnboardingPricingProps) {
+export function OnboardingPricing({ userId }: OnboardingPricingProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState<string | null>(null);
+  const [checkoutTier, setCheckoutTier] = useState<Plan | null>(null);
+  const [billingInterval, setBillingInterval] = useState<PlanInterval>('month');
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const { plans, isLoading: isLoadingPlans, error: plansError } = usePlans();
+  const { hasTrialAvailable } = useTrialStatus();
+  const currencies = getPlanCurrencies(plans);
+  const { currency, setCurrency } = useCurrency(currencies);
 
-  // Pricing tiers with Stripe Payment Links
-  const pricingTiers: PricingTier[] = [
-    {
-      id: 'pro',
-      name: 'Pro',
-      price: '$19',
-      interval: '/month',
-      description: 'Perfect for small teams and startups',
-      features: [
-        'All template features',
-        'Priority support',
-        'Custom branding',
-        'Analytics dashboard',
-        'Team collaboration'
-      ],
-      popular: false,
-      stripePaymentLink: process.env.NEXT_PUBLIC_STRIPE_PRO_PAYMENT_LINK!,
-      cta: 'Get Started'
-    },
-    {
-      id: 'enterprise',
-      name: 'Enterprise',
-      price: '$49',
-      interval: '/month',
-      description: 'For larger organizations',
-      features: [
-        'Everything in Pro',
-        'Advanced security',
-        'Custom integrations',
-        '24/7 support',
-        'SLA guarantee'
-      ],
-      popular: true,
-      stripePaymentLink: process.env.NEXT_PUBLIC_STRIPE_ENTERPRISE_PAYMENT_LINK!,
-      cta: 'Start Trial'
-    },
-    // {
-    //   id: 'custom',
-    //   name: 'Custom',
-    //   price: 'Custom',
-    //   interval: '',
-    //   description: 'Tailored to your needs',
-    //   features: [
-    //     'Custom development',
-    //     'Dedicated support',
-    //     'Custom SLA',
-    //     'On-premise options',
-    //     'Training sessions'
-    //   ],
-    //   popular: false,
-    //   stripePaymentLink: null,
-    //   cta: 'Contact Sales'
-    // }
-  ];
-
-  const handlePlanSelect = async (tier: PricingTier) => {
-    if (!tier.stripePaymentLink) {
+  const handlePlanSelect = async (tier: Plan) => {
+    if (tier.contactSales) {
       // Handle custom plan - redirect to contact form
       router.push('/contact-sales');
       return;
@@ -106,18 +64,52 @@ export function OnboardingPricing({ userId, userEmail }: OnboardingPricingProps)
         console.error('Error tracking plan selection:', error);
       }
 
-      // Redirect to Stripe Payment Link with prefilled data
-      const paymentUrl = new URL(tier.stripePaymentLink);
-      paymentUrl.searchParams.set('prefilled_email', userEmail);
-      paymentUrl.searchParams.set('client_reference_id', userId);
-      
-      window.location.href = paymentUrl.toString();
+      // Move on to the embedded checkout step
+      setCheckoutTier(tier);
     } catch (error) {
       console.error('Error processing plan selection:', error);
+    } finally {
       setIsLoading(null);
     }
   };
 
+  const checkoutPrice = checkoutTier && getPlanPrice(checkoutTier, billingInterval);
+
+  if (checkoutTier && checkoutPrice) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-8 shadow-lg border border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => {
+            setCheckoutTier(null);
+            setAppliedPromo(null);
+          }}
+          className="mb-6 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+        >
+          <ArrowLeft size={16} />
+          Back to plans
+        </button>
+
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+          Complete your {checkoutTier.name} subscription
+        </h2>
+
+        <div className="mb-6">
+          <PromoCodeInput
+            priceId={checkoutPrice.id}
+            appliedPromo={appliedPromo}
+            onChange={setAppliedPromo}
+          />
+        </div>
+
+        <EmbeddedCheckout
+          priceId={checkoutPrice.id}
+          currency={currency}
+          promotionCode={appliedPromo?.code}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl p-8 shadow-lg border border-gray-200 dark:border-gray-700">
       <div className="text-center mb-8">
@@ -136,77 +128,107 @@ export function OnboardingPricing({ userId, userEmail }: OnboardingPricingProps)
         >
           Select the perfect plan to get started
         </motion.p>
+        {hasTrialAvailable && (
+          <p className="mt-2 text-sm font-medium text-primary">
+            Every plan starts with a {TRIAL_DAYS}-day free trial
+            {TRIAL_MODE === 'no_card' ? ', no card required' : ''}.
+          </p>
+        )}
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {pricingTiers.map((tier, index) => (
-          <motion.div
-            key={tier.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: index * 0.1 }}
-            className={`relative rounded-lg p-6 border-2 transition-all duration-300 ${
-              tier.popular 
-                ? 'border-primary bg-primary/5 dark:bg-primary/10 scale-105' 
-                : 'border-gray-200 dark:border-gray-700 hover:border-primary/50'
-            }`}
-          >
-            {tier.popular && (
-              <span className="absolute -top-3 left-1/2 -translate-x-1/2 bg-primary text-white text-sm px-3 py-1 rounded-full">
-                Most Popular
-              </span>
-            )}
-            
-            <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
-              {tier.name}
-            </h3>
-            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-              {tier.description}
-            </p>
-            
-            <div className="mt-4 flex items-baseline">
-              <span className="text-3xl font-bold text-gray-900 dark:text-white">
-                {tier.price}
-              </span>
-              {tier.interval && (
-                <span className="ml-1 text-gray-600 dark:text-gray-400">
-                  {tier.interval}
-                </span>
-              )}
-            </div>
-            
-            <ul className="mt-6 space-y-3">
-              {tier.features.map((feature, idx) => (
-                <li key={idx} className="flex items-center text-sm text-gray-600 dark:text-gray-400">
-                  <CheckCircle2 className="w-4 h-4 text-green-500 mr-2 flex-shrink-0" />
-                  <span>{feature}</span>
-                </li>
-              ))}
-            </ul>
-            
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => handlePlanSelect(tier)}
-              disabled={isLoading === tier.id}
-              className={`mt-6 w-full py-3 px-4 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-                tier.popular
-                  ? 'bg-primary text-white hover:bg-primary-dark'
-                  : 'bg-gray-100 text-gray-900 hover:bg-gray-200 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600'
+      <div className="mb-8 flex flex-wrap items-center justify-center gap-4">
+        {hasYearlyPrices(plans) && (
+          <BillingIntervalToggle
+            interval={billingInterval}
+            onChange={setBillingInterval}
+            savingsPercent={getMaxYearlySavingsPercent(plans)}
+          />
+        )}
+        <CurrencySelector currency={currency} currencies={currencies} onChange={setCurrency} />
+      </div>
+
+      {isLoadingPlans ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : plansError ? (
+        <p className="text-center text-red-600 dark:text-red-400">{plansError}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {plans.map((tier, index) => (
+            <motion.div
+              key={tier.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className={`relative rounded-lg p-6 border-2 transition-all duration-300 ${
+                tier.popular 
+                  ? 'border-primary bg-primary/5 dark:bg-primary/10 scale-105' 
+                  : 'border-gray-200 dark:border-gray-700 hover:border-primary/50'
               }`}
             >
-              {isLoading === tier.id ? (
-                <div className="flex items-center justify-center">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
-                  Redirecting...
-                </div>
-              ) : (
-                tier.cta
+              {tier.popular && (
+                <span className="absolute -top-3 left-1/2 -translate-x-1/2 bg-primary text-white text-sm px-3 py-1 rounded-full">
+                  Most Popular
+                </span>
               )}
-            </motion.button>
-          </motion.div>
-        ))}
-      </div>
+              
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
+                {tier.name}
+              </h3>
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                {tier.description}
+              </p>
+              
+              <div className="mt-4 flex items-baseline">
+                <span className="text-3xl font-bold text-gray-900 dark:text-white">
+                  {formatPlanPrice(getPlanPrice(tier, billingInterval), currency)}
+                </span>
+                {!tier.contactSales && (
+                  <span className="ml-1 text-gray-600 dark:text-gray-400">
+                    {formatPlanInterval(getPlanPrice(tier, billingInterval))}
+                  </span>
+                )}
+              </div>
+              {billingInterval === 'year' && getYearlySavingsPercent(tier) > 0 && (
+                <p className="mt-1 text-sm text-green-600 dark:text-green-400">
+                  Save {getYearlySavingsPercent(tier)}% with yearly billing
+                </p>
+              )}
+              
+              <ul className="mt-6 space-y-3">
+                {tier.features.map((feature, idx) => (
+                  <li key={idx} className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <CheckCircle2 className="w-4 h-4 text-green-500 mr-2 flex-shrink-0" />
+                    <span>{feature}</span>
+                  </li>
+                ))}
+              </ul>
+              
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => handlePlanSelect(tier)}
+                disabled={isLoading === tier.id}
+                className={`mt-6 w-full py-3 px-4 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  tier.popular
+                    ? 'bg-primary text-white hover:bg-primary-dark'
+                    : 'bg-gray-100 text-gray-900 hover:bg-gray-200 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600'
+                }`}
+              >
+                {isLoading === tier.id ? (
+                  <div className="flex items-center justify-center">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
+                    Loading...
+                  </div>
+                ) : (
+                  tier.cta
+                )}
+              </motion.button>
+            </motion.div>
+          ))}
+        </div>
+      )}
 
       {/* Trust indicators */}
       <motion.div 
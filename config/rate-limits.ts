@@ -0,0 +1,43 @@
+// Directory: /config/rate-limits.ts
+
+import type { RateLimitConfig } from '@/utils/rate-limit';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Per-route limits, applied with `withRateLimit`. A route can limit by signed-in
+ * user, by IP, or both; every applicable limit has to pass. The IP limit also
+ * catches unauthenticated callers.
+ */
+export const RATE_LIMITS = {
+  // Each of these calls Stripe directly
+  checkout: { name: 'stripe:checkout', user: { limit: 10, windowMs: 10 * MINUTE }, ip: { limit: 30, windowMs: 10 * MINUTE } },
+  subscriptionChange: { name: 'stripe:subscription-change', user: { limit: 10, windowMs: 10 * MINUTE }, ip: { limit: 30, windowMs: 10 * MINUTE } },
+  upgradePreview: { name: 'stripe:upgrade-preview', user: { limit: 30, windowMs: MINUTE }, ip: { limit: 60, windowMs: MINUTE } },
+  sync: { name: 'stripe:sync', user: { limit: 5, windowMs: MINUTE }, ip: { limit: 20, windowMs: MINUTE } },
+  billingRead: { name: 'stripe:billing-read', user: { limit: 60, windowMs: MINUTE }, ip: { limit: 120, windowMs: MINUTE } },
+  billingWrite: { name: 'stripe:billing-write', user: { limit: 10, windowMs: 10 * MINUTE }, ip: { limit: 30, windowMs: 10 * MINUTE } },
+  promoValidate: { name: 'stripe:promo-validate', user: { limit: 10, windowMs: MINUTE }, ip: { limit: 20, windowMs: MINUTE } },
+  stripeTest: { name: 'stripe:test', ip: { limit: 5, windowMs: MINUTE } },
+
+  teamMembers: { name: 'team:members', user: { limit: 30, windowMs: MINUTE }, ip: { limit: 60, windowMs: MINUTE } },
+  usage: { name: 'usage', user: { limit: 60, windowMs: MINUTE }, ip: { limit: 120, windowMs: MINUTE } },
+  demoGenerate: { name: 'demo:generate', user: { limit: 20, windowMs: MINUTE }, ip: { limit: 40, windowMs: MINUTE } },
+
+  accountDelete: { name: 'user:delete', user: { limit: 3, windowMs: HOUR }, ip: { limit: 10, windowMs: HOUR } },
+  onboardingStatus: { name: 'user:onboarding-status', ip: { limit: 60, windowMs: MINUTE } },
+  mfaRecoveryCodes: { name: 'user:mfa-recovery-codes', user: { limit: 20, windowMs: 10 * MINUTE }, ip: { limit: 40, windowMs: 10 * MINUTE } },
+  // Recovery codes are guessable given enough attempts, keep this tight and
+  // refuse attempts while the limit can't be checked
+  mfaRecover: { name: 'user:mfa-recover', user: { limit: 5, windowMs: HOUR }, ip: { limit: 10, windowMs: HOUR }, failClosed: true },
+
+  // Admin-only, but a leaked admin session shouldn't be able to hammer Stripe
+  adminBilling: { name: 'admin:billing', user: { limit: 20, windowMs: 10 * MINUTE }, ip: { limit: 40, windowMs: 10 * MINUTE } },
+  adminReplay: { name: 'admin:replay', user: { limit: 10, windowMs: 10 * MINUTE }, ip: { limit: 20, windowMs: 10 * MINUTE } },
+  // Walks every subscription in Stripe
+  adminReconcile: { name: 'admin:reconcile', user: { limit: 3, windowMs: 10 * MINUTE }, ip: { limit: 6, windowMs: 10 * MINUTE } },
+
+  // OAuth and email confirmation links land here
+  authCallback: { name: 'auth:callback', ip: { limit: 20, windowMs: 10 * MINUTE } },
+} satisfies Record<string, RateLimitConfig>;
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { getSafeRedirectPath } from './routes';
+
+describe('getSafeRedirectPath', () => {
+  it('keeps paths on this site', () => {
+    expect(getSafeRedirectPath('/profile?tab=billing#invoices', '/dashboard')).toBe('/profile?tab=billing#invoices');
+  });
+
+  it.each(['//evil.com', '/\\evil.com', 'https://evil.com/login', 'javascript:alert(1)', '', null])(
+    'falls back for %j',
+    path => {
+      expect(getSafeRedirectPath(path, '/dashboard')).toBe('/dashboard');
+    }
+  );
+});
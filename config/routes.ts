@@ -0,0 +1,98 @@
+// Directory: /config/routes.ts
+
+/**
+ * Page access rules, enforced by middleware.ts before a page renders.
+ *   - public: anyone
+ *   - guest: signed-out visitors only, signed-in users are sent on to their home page
+ *   - authenticated: any signed-in user
+ *   - onboarding: signed-in users who don't have access yet
+ *   - subscriber: signed-in users with an active or trialing subscription
+ * Paths match themselves and everything below them; the longest match wins.
+ * Pages not listed here require sign in. A user who still owes their second
+ * factor counts as signed in only for public pages and stays on the login page.
+ */
+export type RouteAccess = 'public' | 'guest' | 'authenticated' | 'onboarding' | 'subscriber';
+
+export interface RouteRule {
+  path: string;
+  access: RouteAccess;
+}
+
+export const ROUTE_RULES: RouteRule[] = [
+  { path: '/', access: 'public' },
+  { path: '/auth/callback', access: 'public' },
+  { path: '/verify-email', access: 'public' },
+  { path: '/reset-password', access: 'public' },
+  { path: '/update-password', access: 'public' },
+  { path: '/login', access: 'guest' },
+  { path: '/signup', access: 'guest' },
+  { path: '/onboarding', access: 'onboarding' },
+  // Finishes checkout and forwards to the dashboard, so it has to work before access is granted
+  { path: '/onboarding/success', access: 'authenticated' },
+  { path: '/pay', access: 'authenticated' },
+  { path: '/profile', access: 'authenticated' },
+  { path: '/dashboard', access: 'subscriber' },
+];
+
+export const LOGIN_PATH = '/login';
+
+export interface AccessState {
+  isSignedIn: boolean;
+  hasAccess: boolean; // Active or trialing subscription, or grace period
+  isPaused: boolean;
+  needsMfa: boolean; // Password checked, TOTP code not yet verified
+}
+
+export function getRouteRule(pathname: string): RouteRule {
+  const matches = ROUTE_RULES.filter(rule =>
+    rule.path === '/'
+      ? pathname === '/'
+      : pathname === rule.path || pathname.startsWith(`${rule.path}/`)
+  );
+
+  return matches.sort((a, b) => b.path.length - a.path.length)[0]
+    ?? { path: pathname, access: 'authenticated' };
+}
+
+// Where a signed-in user belongs when the page they asked for isn't for them
+export function getHomePath({ hasAccess, isPaused }: AccessState) {
+  // Paused subscribers aren't new customers, send them where they can resume
+  if (isPaused) return '/profile';
+  return hasAccess ? '/dashboard' : '/onboarding';
+}
+
+/**
+ * The path to redirect to, or null when the visitor may see the page.
+ */
+export function getRouteRedirect(pathname: string, state: AccessState): string | null {
+  const { access } = getRouteRule(pathname);
+
+  if (access === 'public') return null;
+
+  if (access === 'guest') {
+    return state.isSignedIn && !state.needsMfa ? getHomePath(state) : null;
+  }
+
+  if (!state.isSignedIn || state.needsMfa) {
+    return `${LOGIN_PATH}?redirect=${encodeURIComponent(pathname)}`;
+  }
+
+  if (access === 'onboarding' && (state.hasAccess || state.isPaused)) return getHomePath(state);
+  if (access === 'subscriber' && !state.hasAccess) return getHomePath(state);
+
+  return null;
+}
+
+/**
+ * A `redirect` or `next` parameter when it's a path on this site, otherwise
+ * the fallback. Rejects absolute URLs and `//host` or `/\host`, which
+ * browsers would follow off-site.
+ */
+export function getSafeRedirectPath(path: string | null | undefined, fallback: string): string {
+  if (!path?.startsWith('/')) return fallback;
+
+  const base = 'http://localhost';
+  const url = new URL(path, base);
+
+  return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : fallback;
+}
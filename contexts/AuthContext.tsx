@@ -2,13 +2,21 @@
 
 import { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { supabase } from '@/utils/supabase';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
 import { 
   Session, 
   User, 
   SupabaseClient, 
-  AuthTokenResponse 
+  AuthTokenResponse,
+  Factor
 } from '@supabase/supabase-js';
 
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
@@ -19,6 +27,10 @@ interface AuthContextType {
     user: User | null;
     session: Session | null;
   }>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  sendEmailOtp: (email: string) => Promise<void>;
+  verifyEmailOtp: (email: string, token: string, type?: 'email' | 'signup') => Promise<void>;
+  resendSignupEmail: (email: string) => Promise<void>;
   signOut: () => Promise<void>;
   signUpWithEmail: (email: string, password: string) => Promise<{ 
     data: { user: User | null } | null; 
@@ -28,6 +40,14 @@ interface AuthContextType {
   updateEmail: (newEmail: string) => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   isSubscriber: boolean;
+  // Signed in with a password but the account's second factor hasn't been verified yet
+  needsMfa: boolean;
+  verifyMfa: (code: string) => Promise<void>;
+  recoverWithCode: (code: string) => Promise<void>;
+  listTotpFactors: () => Promise<Factor[]>;
+  enrollTotp: () => Promise<TotpEnrollment>;
+  verifyTotpEnrollment: (factorId: string, code: string) => Promise<void>;
+  unenrollFactor: (factorId: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({} as AuthContextType);
@@ -44,6 +64,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubscriber, setIsSubscriber] = useState(false);
+  const [needsMfa, setNeedsMfa] = useState(false);
+
+  const checkAssurance = useCallback(async () => {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (error) {
+      console.error('Assurance level check error:', error);
+      setNeedsMfa(false);
+      return;
+    }
+
+    setNeedsMfa(data.nextLevel === 'aal2' && data.currentLevel !== 'aal2');
+  }, []);
 
   const checkSubscription = useCallback(async (userId: string) => {
     try {
@@ -51,7 +84,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         .from('subscriptions')
         .select('*')
         .eq('user_id', userId)
-        .in('status', ['active', 'trialing'])
+        .in('status', ['active', 'trialing', 'past_due'])
         .order('created_at', { ascending: false })
         .maybeSingle();
       
@@ -61,8 +94,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return;
       }
 
+      // A failed payment keeps access until the dunning grace period runs out
+      const isInGracePeriod = data?.status === 'past_due' &&
+        (!data.grace_period_ends_at || new Date(data.grace_period_ends_at) > new Date());
+
+      // A paused subscription is kept but gives no access until it's resumed
       const isValid = data && 
-        ['active', 'trialing'].includes(data.status) && 
+        !data.is_paused &&
+        (['active', 'trialing'].includes(data.status) || isInGracePeriod) && 
         new Date(data.current_period_end) > new Date();
 
       setIsSubscriber(!!isValid);
@@ -93,7 +132,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(currentUser);
 
         if (currentUser) {
-          await checkSubscription(currentUser.id);
+          await Promise.all([checkSubscription(currentUser.id), checkAssurance()]);
         }
         
         // Then set up listener for future changes
@@ -106,9 +145,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setUser(newUser);
             
             if (newUser) {
-              await checkSubscription(newUser.id);
+              await Promise.all([checkSubscription(newUser.id), checkAssurance()]);
             } else {
               setIsSubscriber(false);
+              setNeedsMfa(false);
             }
           }
         );
@@ -127,7 +167,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
 
     initializeAuth();
-  }, [checkSubscription]);
+  }, [checkSubscription, checkAssurance]);
+
+  const verifyTotp = async (factorId: string, code: string) => {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+    if (error) throw error;
+  };
 
   const value = {
     user,
@@ -173,6 +218,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       return authData;
     },
+    signInWithMagicLink: async (email: string) => {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          emailRedirectTo: `${window.location.origin}/auth/callback`
+        }
+      });
+      if (error) throw error;
+    },
+    // Same email as the magic link, the template has to include {{ .Token }} for the code
+    sendEmailOtp: async (email: string) => {
+      const { error } = await supabase.auth.signInWithOtp({ email });
+      if (error) throw error;
+    },
+    // 'signup' confirms a new account, 'email' signs in with a code from sendEmailOtp
+    verifyEmailOtp: async (email: string, token: string, type: 'email' | 'signup' = 'email') => {
+      const { error } = await supabase.auth.verifyOtp({ email, token, type });
+      if (error) throw error;
+    },
+    resendSignupEmail: async (email: string) => {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email,
+        options: {
+          emailRedirectTo: `${window.location.origin}/auth/callback`
+        }
+      });
+      if (error) throw error;
+    },
     signOut: async () => {
       try {
         // First cleanup all active connections/states
@@ -247,6 +321,65 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       await supabase.auth.signOut();
     },
     isSubscriber,
+    needsMfa,
+    verifyMfa: async (code: string) => {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+      if (error) throw error;
+
+      const factor = data.totp[0];
+      if (!factor) throw new Error('No authenticator app is set up for this account');
+
+      // Upgrades the session to AAL2, the auth state listener picks it up
+      await verifyTotp(factor.id, code);
+    },
+    recoverWithCode: async (code: string) => {
+      const response = await fetchWithAuth('/api/user/mfa/recover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to redeem recovery code');
+      }
+
+      // The factor is gone, a fresh token no longer asks for AAL2
+      const { error } = await supabase.auth.refreshSession();
+      if (error) throw error;
+    },
+    listTotpFactors: async () => {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+      if (error) throw error;
+      return data.all.filter(factor => factor.factor_type === 'totp');
+    },
+    enrollTotp: async () => {
+      // Drop abandoned enrollments, Supabase rejects a second unverified factor with the same name
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      for (const factor of factors.all) {
+        if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: 'Authenticator app'
+      });
+      if (error) throw error;
+
+      return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+    },
+    verifyTotpEnrollment: verifyTotp,
+    unenrollFactor: async (factorId: string) => {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+      if (error) throw error;
+
+      // Refresh so the session's AAL matches the remaining factors
+      await supabase.auth.refreshSession();
+    },
   };
 
 
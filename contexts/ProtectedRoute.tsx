@@ -1,46 +1,28 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import {usePathname } from 'next/navigation';
-// import { useRouter, usePathname } from 'next/navigation';
-
-// List of public routes that don't require authentication
-const PUBLIC_ROUTES = [
-  '/',  // Add landing page
-  '/login', 
-  '/signup', 
-  '/verify-email', 
-  '/reset-password', 
-  '/update-password'
-];
 
+/**
+ * middleware.ts decides who can see a page before it renders. This only
+ * re-runs those rules when the session changes in the browser, e.g. after
+ * signing out or the session expiring in another tab.
+ */
 export default function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, isLoading } = useAuth();
-  // const router = useRouter();
-  const pathname = usePathname();
+  const router = useRouter();
+  const userId = user?.id ?? null;
+  const previousUserId = useRef<string | null | undefined>(undefined);
 
   useEffect(() => {
-    if (!isLoading && !user && !PUBLIC_ROUTES.includes(pathname)) {
-      const redirectUrl = `/login?redirect=${encodeURIComponent(pathname)}`;
-      window.location.assign(redirectUrl);
-    }
-  }, [user, isLoading, pathname]);
+    if (isLoading) return;
 
-  // Show loading state only if actually loading
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex flex-col space-y-4 items-center justify-center">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
-        <div>Loading at lightspeed ⚡️</div>
-      </div>
-    );
-  }
-
-  // Only render children if we're on a public route or user is authenticated
-  if (PUBLIC_ROUTES.includes(pathname) || user) {
-    return <>{children}</>;
-  }
+    if (previousUserId.current !== undefined && previousUserId.current !== userId) {
+      router.refresh();
+    }
+    previousUserId.current = userId;
+  }, [userId, isLoading, router]);
 
-  return null;
-} 
\ No newline at end of file
+  return <>{children}</>;
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+
+export function useBillingPortal() {
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openBillingPortal = useCallback(async () => {
+    setIsOpening(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithAuth('/api/stripe/portal', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to open billing portal');
+      }
+
+      window.location.href = data.url;
+    } catch (err) {
+      console.error('Error opening billing portal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open billing portal');
+      setIsOpening(false);
+    }
+  }, []);
+
+  return {
+    openBillingPortal,
+    isOpening,
+    error
+  };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_CURRENCY, getLocaleCurrency } from '@/utils/currency';
+
+const STORAGE_KEY = 'preferred_currency';
+
+/**
+ * The currency to show prices in: the visitor's explicit choice, otherwise
+ * the one for their browser locale, as long as plans are offered in it.
+ */
+export function useCurrency(availableCurrencies: string[]) {
+  const [preferredCurrency, setPreferredCurrency] = useState<string | null>(null);
+
+  // Read on mount so the server render and first client render agree
+  useEffect(() => {
+    setPreferredCurrency(
+      window.localStorage.getItem(STORAGE_KEY) ?? getLocaleCurrency(navigator.language)
+    );
+  }, []);
+
+  const setCurrency = useCallback((currency: string) => {
+    window.localStorage.setItem(STORAGE_KEY, currency);
+    setPreferredCurrency(currency);
+  }, []);
+
+  const currency = preferredCurrency && availableCurrencies.includes(preferredCurrency)
+    ? preferredCurrency
+    : availableCurrencies.includes(DEFAULT_CURRENCY)
+      ? DEFAULT_CURRENCY
+      : availableCurrencies[0] ?? DEFAULT_CURRENCY;
+
+  return {
+    currency,
+    setCurrency
+  };
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Plan } from '@/types/PlanTypes';
+
+// Several components render plans on the same page, so share one request
+let plansRequest: Promise<Plan[]> | null = null;
+
+function loadPlans() {
+  if (!plansRequest) {
+    plansRequest = fetch('/api/plans')
+      .then(async response => {
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load plans');
+        }
+
+        return data.plans as Plan[];
+      })
+      .catch(error => {
+        // Let the next mount retry instead of caching the failure
+        plansRequest = null;
+        throw error;
+      });
+  }
+
+  return plansRequest;
+}
+
+export function usePlans() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadPlans()
+      .then(data => {
+        if (!isCancelled) setPlans(data);
+      })
+      .catch(err => {
+        console.error('Error loading plans:', err);
+        if (!isCancelled) setError(err instanceof Error ? err.message : 'Failed to load plans');
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  return {
+    plans,
+    isLoading,
+    error
+  };
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import debounce from 'lodash/debounce';
+import type { PromoDuration } from '@/types/PromoTypes';
 
 export interface Subscription {
   id: string;
@@ -13,10 +13,45 @@ export interface Subscription {
   cancel_at_period_end: boolean;
   current_period_end: string;
   product_name: string | null;
+  product_id: string | null;
+  price_id: string | null;
+  payment_failed_at: string | null;
+  dunning_attempt_count: number;
+  dunning_next_retry_at: string | null;
+  grace_period_ends_at: string | null;
+  pending_price_id: string | null;
+  pending_product_name: string | null;
+  pending_change_at: string | null;
+  discount_code: string | null;
+  discount_coupon_id: string | null;
+  discount_name: string | null;
+  discount_percent_off: number | null;
+  discount_amount_off: number | null;
+  discount_currency: string | null;
+  discount_duration: PromoDuration | null;
+  discount_duration_in_months: number | null;
+  discount_ends_at: string | null;
+  is_paused: boolean;
+  paused_at: string | null;
+  pause_resumes_at: string | null;
+  seats: number;
+  currency: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Subscriptions with a failed payment keep access while Stripe retries the card
+const ACCESS_STATUSES = ['active', 'trialing', 'past_due'];
+// Paused subscriptions have no access but can still be resumed from the profile
+const VISIBLE_STATUSES = [...ACCESS_STATUSES, 'paused'];
+
+// Shared by the initial fetch and realtime updates so both show the same subscriptions
+function isVisibleSubscription(sub: Pick<Subscription, 'status' | 'current_period_end'> | null) {
+  return !!sub &&
+    VISIBLE_STATUSES.includes(sub.status) &&
+    new Date(sub.current_period_end) > new Date();
+}
+
 export function useSubscription() {
   const { user, supabase } = useAuth();
   const [subscription, setSubscription] = useState<Subscription | null>(null);
@@ -51,17 +86,14 @@ export function useSubscription() {
         .from('subscriptions')
         .select('*')
         .eq('user_id', user.id)
-        .in('status', ['active', 'trialing'])
+        .in('status', VISIBLE_STATUSES)
         .order('created_at', { ascending: false })
+        .limit(1)
         .maybeSingle();
 
       if (error) throw error;
 
-      const isValid = data && 
-        ['active', 'trialing'].includes(data.status) && 
-        new Date(data.current_period_end) > new Date();
-
-      const result = isValid ? data : null;
+      const result = isVisibleSubscription(data) ? data : null;
       
       // Update cache
       subscriptionCache.set(user.id, {
@@ -83,49 +115,6 @@ export function useSubscription() {
     fetchSubscription();
   }, [fetchSubscription]);
 
-  const checkValidSubscription = useCallback((data: Subscription[]): boolean => {
-    return data.some(sub => 
-      ['active', 'trialing'].includes(sub.status) &&
-      new Date(sub.current_period_end) > new Date()
-    );
-  }, []);
-
-  const MAX_SYNC_RETRIES = 3;
-  const [syncRetries, setSyncRetries] = useState(0);
-
-  const debouncedSyncWithStripe = useCallback(
-    debounce(async (subscriptionId: string) => {
-      if (syncRetries >= MAX_SYNC_RETRIES) {
-        return;
-      }
-
-      try {
-        const response = await fetch('/api/stripe/sync', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ subscriptionId }),
-        });
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.details || 'Failed to sync with Stripe');
-        }
-        
-        await fetchSubscription();
-        setSyncRetries(0); // Reset retries on success
-      } catch (error) {
-        console.error('Error syncing with Stripe:', error);
-        setError(error instanceof Error ? error.message : 'Failed to sync with Stripe');
-        setSyncRetries(prev => prev + 1);
-      }
-    }, 30000), // 30 second delay between calls
-    [fetchSubscription, syncRetries]
-  );
-
-  const syncWithStripe = useCallback((subscriptionId: string) => {
-    debouncedSyncWithStripe(subscriptionId);
-  }, [debouncedSyncWithStripe]);
-
   useEffect(() => {
     if (!user) return;
 
@@ -140,8 +129,8 @@ export function useSubscription() {
           filter: `user_id=eq.${user.id}`
         },
         async (payload) => {
-          const isValid = checkValidSubscription([payload.new as Subscription]);
-          setSubscription(isValid ? payload.new as Subscription : null);
+          const updated = payload.new as Subscription;
+          setSubscription(isVisibleSubscription(updated) ? updated : null);
         }
       )
       .subscribe();
@@ -149,30 +138,14 @@ export function useSubscription() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user, supabase, checkValidSubscription]);
-
-  useEffect(() => {
-    let timeoutId: NodeJS.Timeout;
-    
-    if (subscription?.stripe_subscription_id) {
-      // Add a delay before first sync
-      timeoutId = setTimeout(() => {
-        syncWithStripe(subscription.stripe_subscription_id);
-      }, 1000);
-    }
-
-    return () => {
-      if (timeoutId) clearTimeout(timeoutId);
-    };
-  }, [syncWithStripe, subscription?.stripe_subscription_id]);
+  }, [user, supabase]);
 
   return {
     subscription,
     isLoading: loading,
     error,
-    syncWithStripe: useCallback((subscriptionId: string) => {
-      debouncedSyncWithStripe(subscriptionId);
-    }, [debouncedSyncWithStripe]),
+    isPastDue: subscription?.status === 'past_due',
+    isPaused: !!subscription?.is_paused,
     fetchSubscription // Expose fetch function for manual refresh
   };
 } 
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/utils/supabase';
+import { isTrialEnabled } from '@/utils/trial-config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export function useTrialStatus() {
   const { user } = useAuth();
@@ -9,7 +12,9 @@ export function useTrialStatus() {
     isInTrial: boolean;
     trialEndTime: string | null;
     hasSubscription: boolean;
-  }>({ isInTrial: false, trialEndTime: null, hasSubscription: false });
+    hasTrialAvailable: boolean;
+    reminderSent: boolean;
+  }>({ isInTrial: false, trialEndTime: null, hasSubscription: false, hasTrialAvailable: false, reminderSent: false });
 
   useEffect(() => {
     async function checkTrialStatus() {
@@ -19,60 +24,44 @@ export function useTrialStatus() {
       }
 
       try {
-        // First check if user has an active subscription
         const { data: subscription } = await supabase
           .from('subscriptions')
           .select('status')
           .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(1)
           .maybeSingle();
 
-        // If user has an active subscription, skip trial creation
-        if (subscription?.status === 'active' || subscription?.status === 'trialing') {
-          setTrialStatus({
-            isInTrial: false,
-            trialEndTime: null,
-            hasSubscription: true
-          });
-          setIsLoading(false);
-          return;
-        }
-
-        // Check if user has an existing trial
+        // Trials are Stripe trialing subscriptions, mirrored into user_trials by the webhook
         const { data: trial, error: trialError } = await supabase
           .from('user_trials')
-          .select('trial_end_time, is_trial_used')
+          .select('trial_end_time, is_trial_used, reminder_sent_at')
           .eq('user_id', user.id)
           .maybeSingle();
 
-        if (trialError && trialError.code !== 'PGRST116') { // PGRST116 is "not found" error
+        if (trialError) {
           throw trialError;
         }
 
-        if (trial) {
-          // Check if trial is still valid
-          const now = new Date();
-          const endTime = new Date(trial.trial_end_time);
-          const isInTrial = !trial.is_trial_used && now < endTime;
+        const hasSubscription = subscription?.status === 'active' || subscription?.status === 'trialing';
 
-          setTrialStatus({
-            isInTrial,
-            trialEndTime: trial.trial_end_time,
-            hasSubscription: false
-          });
-        } else {
-          // User has no trial record - they are in trial period but don't create record yet
-          setTrialStatus({
-            isInTrial: true,
-            trialEndTime: null,
-            hasSubscription: false
-          });
-        }
+        // No row means the user never started a trial, not that they're in one
+        setTrialStatus({
+          isInTrial: !!trial && !trial.is_trial_used && new Date(trial.trial_end_time) > new Date(),
+          trialEndTime: trial?.trial_end_time ?? null,
+          hasSubscription,
+          hasTrialAvailable: isTrialEnabled && !trial && !hasSubscription,
+          reminderSent: !!trial?.reminder_sent_at
+        });
       } catch (error) {
+        console.error('Error checking trial status:', error);
         // Set default state on error
         setTrialStatus({
           isInTrial: false,
           trialEndTime: null,
-          hasSubscription: false
+          hasSubscription: false,
+          hasTrialAvailable: false,
+          reminderSent: false
         });
       } finally {
         setIsLoading(false);
@@ -82,5 +71,9 @@ export function useTrialStatus() {
     checkTrialStatus();
   }, [user?.id]);
 
-  return { ...trialStatus, isLoading };
-}
\ No newline at end of file
+  const trialDaysLeft = trialStatus.isInTrial && trialStatus.trialEndTime
+    ? Math.max(0, Math.ceil((new Date(trialStatus.trialEndTime).getTime() - Date.now()) / DAY_MS))
+    : null;
+
+  return { ...trialStatus, trialDaysLeft, isLoading };
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchWithAuth } from '@/utils/fetch-with-auth';
+import type { CurrentUsage } from '@/types/UsageTypes';
+
+export function useUsage() {
+  const [usage, setUsage] = useState<CurrentUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/usage');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load usage');
+      }
+
+      setUsage(data.usage);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return {
+    usage,
+    isLoading,
+    error,
+    fetchUsage
+  };
+}
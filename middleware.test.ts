@@ -0,0 +1,121 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock } from '@/test/supabase-mock';
+
+const mocks = vi.hoisted(() => ({
+  supabase: { current: null as ReturnType<typeof createSupabaseMock> | null },
+  getUser: vi.fn(),
+  getSession: vi.fn(),
+}));
+
+vi.mock('@supabase/auth-helpers-nextjs', () => ({
+  createMiddlewareClient: () => Object.assign(mocks.supabase.current!.supabase, {
+    auth: {
+      getUser: mocks.getUser,
+      getSession: mocks.getSession,
+      mfa: { getAuthenticatorAssuranceLevel: async () => ({ data: { currentLevel: 'aal1', nextLevel: 'aal1' } }) },
+    },
+  }),
+}));
+
+import { middleware } from './middleware';
+
+const future = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+const activeSubscription = { status: 'active', is_paused: false, current_period_end: future, grace_period_ends_at: null };
+
+// Policies left on each table after applying every migration in order
+function activePolicies() {
+  const dir = join(__dirname, 'supabase/migrations');
+  const policies = new Map<string, { table: string; command: string; role: string }>();
+
+  for (const file of readdirSync(dir).sort()) {
+    const sql = readFileSync(join(dir, file), 'utf8');
+    const statements = /(CREATE|DROP) POLICY (?:IF EXISTS )?"([^"]+)" ON public\.(\w+)([^;]*)/gi;
+
+    for (const [, verb, name, table, rest] of sql.matchAll(statements)) {
+      const key = `${table}:${name}`;
+      if (verb.toUpperCase() === 'DROP') {
+        policies.delete(key);
+      } else {
+        const command = /\bFOR (\w+)/i.exec(rest)?.[1].toUpperCase() ?? 'ALL';
+        const role = /\bTO (\w+)/i.exec(rest)?.[1] ?? 'public';
+        policies.set(key, { table, command, role });
+      }
+    }
+  }
+
+  return [...policies.values()];
+}
+
+function visit(path: string) {
+  return middleware(new NextRequest(`http://localhost:3000${path}`));
+}
+
+describe('middleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getUser.mockResolvedValue({ data: { user: { id: 'user_1' } } });
+  });
+
+  it('gives a team member access through the owner\'s subscription', async () => {
+    mocks.supabase.current = createSupabaseMock(query =>
+      query.table === 'team_members' ? { data: [{ subscriptions: activeSubscription }] } : undefined
+    );
+
+    const response = await visit('/dashboard');
+
+    expect(response.headers.get('location')).toBeNull();
+  });
+
+  it('sends a team member of a paused subscription to onboarding', async () => {
+    mocks.supabase.current = createSupabaseMock(query =>
+      query.table === 'team_members'
+        ? { data: [{ subscriptions: { ...activeSubscription, status: 'paused', is_paused: true } }] }
+        : undefined
+    );
+
+    const response = await visit('/dashboard');
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/onboarding');
+  });
+
+  it('decides access from the verified user, not the session cookie', async () => {
+    mocks.supabase.current = createSupabaseMock();
+    mocks.getUser.mockResolvedValue({ data: { user: null } });
+    mocks.getSession.mockResolvedValue({ data: { session: { user: { id: 'user_1' } } } });
+
+    const response = await visit('/dashboard');
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/login?redirect=%2Fdashboard');
+    expect(mocks.getSession).not.toHaveBeenCalled();
+  });
+
+  it('does not grant access from a user_trials row without a trialing subscription', async () => {
+    mocks.supabase.current = createSupabaseMock(query =>
+      query.table === 'user_trials'
+        ? { data: { trial_end_time: future, is_trial_used: false } }
+        : undefined
+    );
+
+    const response = await visit('/dashboard');
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/onboarding');
+  });
+
+  it('decides access only from tables users cannot write', async () => {
+    mocks.supabase.current = createSupabaseMock();
+
+    await visit('/dashboard');
+
+    // team_members embeds the owner's subscriptions row
+    const tables = new Set(mocks.supabase.current.queries.map(query => query.table));
+    expect([...tables].sort()).toEqual(['subscriptions', 'team_members']);
+
+    const userWritable = activePolicies().filter(policy =>
+      tables.has(policy.table) && policy.role !== 'service_role' && policy.command !== 'SELECT'
+    );
+    expect(userWritable).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getRouteRedirect, getRouteRule } from '@/config/routes';
+
+// Rules that depend on the user's subscription, not just whether they're signed in
+const ACCESS_AWARE_RULES = ['guest', 'onboarding', 'subscriber'];
+
+const SUBSCRIPTION_ACCESS_COLUMNS = 'status, is_paused, current_period_end, grace_period_ends_at';
+
+type SubscriptionAccessRow = {
+  status: string;
+  is_paused: boolean | null;
+  current_period_end: string;
+  grace_period_ends_at: string | null;
+};
+
+function isPausedSubscription(subscription: SubscriptionAccessRow | null) {
+  return !!subscription?.is_paused || subscription?.status === 'paused';
+}
+
+// Same rules as AuthContext: past_due keeps access through the dunning grace period
+function grantsAccess(subscription: SubscriptionAccessRow | null, now: Date) {
+  if (!subscription || isPausedSubscription(subscription)) return false;
+
+  const isInGracePeriod = subscription.status === 'past_due' &&
+    (!subscription.grace_period_ends_at || new Date(subscription.grace_period_ends_at) > now);
+
+  return (['active', 'trialing'].includes(subscription.status) || isInGracePeriod) &&
+    new Date(subscription.current_period_end) > now;
+}
+
+// Only reads rows the service role writes: users can read but not change
+// subscriptions or team_members, so they can't grant themselves access
+async function getAccess(supabase: SupabaseClient, userId: string) {
+  const [{ data: subscription }, { data: memberships }] = await Promise.all([
+    supabase
+      .from('subscriptions')
+      .select(SUBSCRIPTION_ACCESS_COLUMNS)
+      .eq('user_id', userId)
+      .in('status', ['active', 'trialing', 'past_due', 'paused'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    // Seats on someone else's subscription
+    supabase
+      .from('team_members')
+      .select(`subscriptions (${SUBSCRIPTION_ACCESS_COLUMNS})`)
+      .eq('user_id', userId),
+  ]);
+
+  const now = new Date();
+  const teamSubscriptions = (memberships || [])
+    .map(membership => membership.subscriptions as unknown as SubscriptionAccessRow | null);
+
+  // Trials are Stripe trialing subscriptions, so they're covered here too
+  const hasAccess = grantsAccess(subscription, now) ||
+    teamSubscriptions.some(teamSubscription => grantsAccess(teamSubscription, now));
+
+  // Only the owner can resume, a paused team subscription just means no access
+  return { hasAccess, isPaused: isPausedSubscription(subscription) };
+}
+
+/**
+ * Refreshes the Supabase session cookie and applies the rules in
+ * config/routes.ts before the page renders.
+ */
+export async function middleware(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createMiddlewareClient({ req: request, res: response });
+
+  // Refreshes an expired session and writes the new cookie onto the response.
+  // getUser checks the token with Supabase Auth, unlike the cookie's own claims.
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { pathname } = request.nextUrl;
+  const rule = getRouteRule(pathname);
+
+  const access = user && ACCESS_AWARE_RULES.includes(rule.access)
+    ? await getAccess(supabase, user.id)
+    : { hasAccess: false, isPaused: false };
+
+  // Read from the session token, no network round trip
+  const { data: assurance } = user
+    ? await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+    : { data: null };
+  const needsMfa = assurance?.nextLevel === 'aal2' && assurance.currentLevel !== 'aal2';
+
+  const destination = getRouteRedirect(pathname, { isSignedIn: !!user, needsMfa, ...access });
+
+  if (!destination) return response;
+
+  const redirect = NextResponse.redirect(new URL(destination, request.url));
+
+  // Keep any refreshed session cookie across the redirect
+  response.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie));
+
+  return redirect;
+}
+
+export const config = {
+  // API routes authenticate themselves, static assets need no session
+  matcher: ['/((?!api|_next/static|_next/image|.*\\.(?:ico|png|jpg|jpeg|gif|svg|webp)$).*)'],
+};
@@ -0,0 +1,24 @@
+create table public.stripe_events (
+  id text not null,
+  type text not null,
+  payload jsonb not null,
+  status text not null default 'received',
+  attempts integer not null default 0,
+  last_error text null,
+  stripe_created_at timestamp with time zone not null,
+  received_at timestamp with time zone not null default now(),
+  processed_at timestamp with time zone null,
+  updated_at timestamp with time zone not null default now(),
+  constraint stripe_events_pkey primary key (id),
+  constraint stripe_events_status_check check (status in ('received', 'processing', 'processed', 'failed'))
+) TABLESPACE pg_default;
+
+create index stripe_events_status_idx on public.stripe_events (status);
+create index stripe_events_stripe_created_at_idx on public.stripe_events (stripe_created_at);
+create index stripe_events_type_idx on public.stripe_events (type);
+
+-- Only the service role touches webhook events
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to stripe events" ON public.stripe_events
+  FOR ALL TO service_role USING (true);
@@ -0,0 +1,45 @@
+create table public.invoices (
+  id uuid not null default gen_random_uuid (),
+  user_id uuid null,
+  stripe_invoice_id text not null,
+  stripe_customer_id text null,
+  stripe_subscription_id text null,
+  number text null,
+  status text null,
+  billing_reason text null,
+  currency text null,
+  amount_due integer not null default 0,
+  amount_paid integer not null default 0,
+  amount_remaining integer not null default 0,
+  attempt_count integer not null default 0,
+  next_payment_attempt timestamp with time zone null,
+  hosted_invoice_url text null,
+  invoice_pdf text null,
+  period_start timestamp with time zone null,
+  period_end timestamp with time zone null,
+  paid_at timestamp with time zone null,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint invoices_pkey primary key (id),
+  constraint invoices_stripe_invoice_id_key unique (stripe_invoice_id),
+  constraint invoices_user_id_fkey foreign KEY (user_id) references users (id) on delete CASCADE
+) TABLESPACE pg_default;
+
+create index invoices_user_id_idx on public.invoices (user_id);
+create index invoices_stripe_subscription_id_idx on public.invoices (stripe_subscription_id);
+
+-- Dunning state for subscriptions with a failed renewal payment
+alter table public.subscriptions
+  add column payment_failed_at timestamp with time zone null,
+  add column dunning_attempt_count integer not null default 0,
+  add column dunning_next_retry_at timestamp with time zone null,
+  add column grace_period_ends_at timestamp with time zone null;
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoices are written by the webhook only
+CREATE POLICY "Users can read their own invoices" ON public.invoices
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to invoices" ON public.invoices
+  FOR ALL TO service_role USING (true);
@@ -0,0 +1,6 @@
+-- Downgrades are scheduled for period end through a Stripe subscription schedule
+alter table public.subscriptions
+  add column stripe_schedule_id text null,
+  add column pending_price_id text null,
+  add column pending_product_name text null,
+  add column pending_change_at timestamp with time zone null;
@@ -0,0 +1,11 @@
+-- Discount applied to the subscription through a promotion code or coupon
+alter table public.subscriptions
+  add column discount_code text null,
+  add column discount_coupon_id text null,
+  add column discount_name text null,
+  add column discount_percent_off numeric null,
+  add column discount_amount_off integer null,
+  add column discount_currency text null,
+  add column discount_duration text null,
+  add column discount_duration_in_months integer null,
+  add column discount_ends_at timestamp with time zone null;
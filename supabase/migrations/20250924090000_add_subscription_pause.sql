@@ -0,0 +1,5 @@
+-- Paused subscriptions stop billing (pause_collection) without being cancelled
+alter table public.subscriptions
+  add column is_paused boolean not null default false,
+  add column paused_at timestamp with time zone null,
+  add column pause_resumes_at timestamp with time zone null;
@@ -0,0 +1,23 @@
+-- Trials now run as Stripe trialing subscriptions. A user_trials row is
+-- written by the webhook when a trial starts and marks the trial as used.
+alter table public.user_trials
+  add column stripe_subscription_id text null,
+  add column reminder_sent_at timestamp with time zone null;
+
+-- Trial eligibility depends on this table, so only the service role writes to it
+DROP POLICY IF EXISTS "Users can update their own trials" ON public.user_trials;
+DROP POLICY IF EXISTS "Users can insert their own trials" ON public.user_trials;
+
+-- Signup no longer starts a trial
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+  RETURNS trigger AS $$
+  BEGIN
+    INSERT INTO public.users (id, email, created_at, updated_at, is_deleted)
+    VALUES (NEW.id, NEW.email, NOW(), NOW(), FALSE);
+    
+    INSERT INTO public.user_preferences (user_id, has_completed_onboarding)
+    VALUES (NEW.id, FALSE);
+    
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,31 @@
+-- Subscription item quantity is the number of seats, the owner takes one of them
+alter table public.subscriptions
+  add column seats integer not null default 1;
+
+create table public.team_members (
+  id uuid not null default gen_random_uuid (),
+  subscription_id uuid not null,
+  owner_user_id uuid not null,
+  email text not null,
+  user_id uuid null,
+  created_at timestamp with time zone null default now(),
+  constraint team_members_pkey primary key (id),
+  constraint team_members_subscription_email_key unique (subscription_id, email),
+  constraint team_members_subscription_id_fkey foreign KEY (subscription_id) references subscriptions (id) on delete CASCADE,
+  constraint team_members_owner_user_id_fkey foreign KEY (owner_user_id) references users (id) on delete CASCADE,
+  constraint team_members_user_id_fkey foreign KEY (user_id) references users (id) on delete set null
+) TABLESPACE pg_default;
+
+create index team_members_owner_user_id_idx on public.team_members (owner_user_id);
+
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+-- Members are added through the API so the seat limit is always checked
+CREATE POLICY "Owners can read their team" ON public.team_members
+  FOR SELECT USING (auth.uid() = owner_user_id);
+
+CREATE POLICY "Members can read their own membership" ON public.team_members
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to team members" ON public.team_members
+  FOR ALL TO service_role USING (true);
@@ -0,0 +1,35 @@
+-- Metered usage item on the subscription, and the period usage is counted against
+alter table public.subscriptions
+  add column stripe_metered_item_id text null,
+  add column current_period_start timestamp with time zone null;
+
+-- Billable usage, pushed to Stripe in batches by the report-usage cron
+create table public.usage_events (
+  id uuid not null default gen_random_uuid (),
+  user_id uuid not null,
+  subscription_id uuid not null,
+  stripe_subscription_item_id text not null,
+  metric text not null,
+  quantity integer not null default 1,
+  report_batch_id uuid null,
+  reported_at timestamp with time zone null,
+  created_at timestamp with time zone null default now(),
+  constraint usage_events_pkey primary key (id),
+  constraint usage_events_quantity_check check (quantity > 0),
+  constraint usage_events_user_id_fkey foreign KEY (user_id) references users (id) on delete CASCADE,
+  constraint usage_events_subscription_id_fkey foreign KEY (subscription_id) references subscriptions (id) on delete CASCADE
+) TABLESPACE pg_default;
+
+create index usage_events_subscription_created_idx on public.usage_events (subscription_id, created_at);
+
+create index usage_events_unreported_idx on public.usage_events (report_batch_id)
+  where reported_at is null;
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Usage is only ever recorded server side
+CREATE POLICY "Users can read own usage" ON public.usage_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to usage events" ON public.usage_events
+  FOR ALL TO service_role USING (true);
@@ -0,0 +1,14 @@
+-- Currency the subscription is billed in, fixed for the customer after the first invoice
+alter table public.subscriptions
+  add column currency text null;
+
+update public.subscriptions s
+set currency = i.currency
+from (
+  select distinct on (stripe_subscription_id) stripe_subscription_id, currency
+  from public.invoices
+  where stripe_subscription_id is not null
+  order by stripe_subscription_id, created_at desc
+) i
+where s.stripe_subscription_id = i.stripe_subscription_id
+  and s.currency is null;
@@ -0,0 +1,38 @@
+-- Billing address and tax details, mirrored from the Stripe customer
+create table public.billing_profiles (
+  id uuid not null default gen_random_uuid (),
+  user_id uuid not null,
+  stripe_customer_id text not null,
+  name text null,
+  address_line1 text null,
+  address_line2 text null,
+  address_city text null,
+  address_state text null,
+  address_postal_code text null,
+  address_country text null,
+  tax_exempt text not null default 'none',
+  tax_status text null,
+  tax_ids jsonb not null default '[]'::jsonb,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint billing_profiles_pkey primary key (id),
+  constraint billing_profiles_user_id_key unique (user_id),
+  constraint billing_profiles_stripe_customer_id_key unique (stripe_customer_id),
+  constraint billing_profiles_user_id_fkey foreign KEY (user_id) references users (id) on delete CASCADE
+) TABLESPACE pg_default;
+
+-- Tax breakdown for invoices
+alter table public.invoices
+  add column subtotal integer not null default 0,
+  add column tax integer not null default 0,
+  add column total integer not null default 0,
+  add column tax_breakdown jsonb not null default '[]'::jsonb;
+
+ALTER TABLE public.billing_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the API so Stripe stays the source of truth
+CREATE POLICY "Users can read own billing profile" ON public.billing_profiles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access to billing profiles" ON public.billing_profiles
+  FOR ALL TO service_role USING (true);
@@ -0,0 +1,27 @@
+-- Every billing adjustment made by an admin, with the reason they gave
+create table public.admin_audit_log (
+  id uuid not null default gen_random_uuid (),
+  admin_user_id uuid null,
+  action text not null,
+  target_type text not null,
+  target_id text not null,
+  reason text not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamp with time zone null default now(),
+  constraint admin_audit_log_pkey primary key (id),
+  constraint admin_audit_log_admin_user_id_fkey foreign KEY (admin_user_id) references users (id) on delete set null
+) TABLESPACE pg_default;
+
+create index admin_audit_log_target_idx on public.admin_audit_log (target_type, target_id);
+create index admin_audit_log_created_at_idx on public.admin_audit_log (created_at desc);
+
+-- Refunds and credit notes against an invoice, synced from webhooks
+alter table public.invoices
+  add column amount_refunded integer not null default 0,
+  add column amount_credited integer not null default 0;
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Only written and read server side
+CREATE POLICY "Service role full access to admin audit log" ON public.admin_audit_log
+  FOR ALL TO service_role USING (true);
@@ -0,0 +1,26 @@
+-- Results of each Stripe to database reconciliation run
+create table public.reconciliation_reports (
+  id uuid not null default gen_random_uuid (),
+  trigger text not null,
+  triggered_by uuid null,
+  dry_run boolean not null default false,
+  started_at timestamp with time zone not null,
+  finished_at timestamp with time zone null,
+  subscriptions_checked integer not null default 0,
+  customers_checked integer not null default 0,
+  discrepancy_count integer not null default 0,
+  fixed_count integer not null default 0,
+  discrepancies jsonb not null default '[]'::jsonb,
+  error text null,
+  created_at timestamp with time zone null default now(),
+  constraint reconciliation_reports_pkey primary key (id),
+  constraint reconciliation_reports_trigger_check check (trigger in ('cron', 'admin')),
+  constraint reconciliation_reports_triggered_by_fkey foreign KEY (triggered_by) references users (id) on delete set null
+) TABLESPACE pg_default;
+
+create index reconciliation_reports_started_at_idx on public.reconciliation_reports (started_at desc);
+
+ALTER TABLE public.reconciliation_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to reconciliation reports" ON public.reconciliation_reports
+  FOR ALL TO service_role USING (true);
@@ -0,0 +1,19 @@
+-- Each user has at most one Stripe customer, created at signup or first checkout
+alter table public.users
+  add column stripe_customer_id text null,
+  add constraint users_stripe_customer_id_key unique (stripe_customer_id);
+
+-- Link existing users to the customer on their latest subscription
+update public.users u
+set stripe_customer_id = s.stripe_customer_id
+from (
+  select distinct on (user_id) user_id, stripe_customer_id
+  from public.subscriptions
+  where user_id is not null and stripe_customer_id is not null
+  order by user_id, created_at desc
+) s
+where u.id = s.user_id
+  and u.stripe_customer_id is null
+  and not exists (
+    select 1 from public.users other where other.stripe_customer_id = s.stripe_customer_id
+  );
@@ -0,0 +1,36 @@
+-- Fixed-window counters for API rate limiting, shared across server instances
+create table public.rate_limits (
+  key text not null,
+  count integer not null default 0,
+  reset_at timestamp with time zone not null,
+  constraint rate_limits_pkey primary key (key)
+) TABLESPACE pg_default;
+
+create index rate_limits_reset_at_idx on public.rate_limits (reset_at);
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to rate limits" ON public.rate_limits
+  FOR ALL TO service_role USING (true);
+
+-- Count a hit and return the window's total, starting a new window once the old one has expired
+CREATE OR REPLACE FUNCTION public.increment_rate_limit(p_key text, p_window_ms integer)
+  RETURNS TABLE (count integer, reset_at timestamp with time zone) AS $$
+  #variable_conflict use_column
+  BEGIN
+    -- Expired windows are cleared now and then so the table doesn't grow forever
+    IF random() < 0.01 THEN
+      DELETE FROM public.rate_limits r WHERE r.reset_at < NOW() - INTERVAL '1 hour';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.rate_limits AS r (key, count, reset_at)
+    VALUES (p_key, 1, NOW() + make_interval(secs => p_window_ms / 1000.0))
+    ON CONFLICT (key) DO UPDATE SET
+      count = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.count + 1 END,
+      reset_at = CASE WHEN r.reset_at <= NOW() THEN NOW() + make_interval(secs => p_window_ms / 1000.0) ELSE r.reset_at END
+    RETURNING r.count, r.reset_at;
+  END;
+  $$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.increment_rate_limit(text, integer) FROM PUBLIC, anon, authenticated;
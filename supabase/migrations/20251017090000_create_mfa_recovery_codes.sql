@@ -0,0 +1,16 @@
+-- One-time codes that remove a user's TOTP factors when they lose their authenticator
+create table public.mfa_recovery_codes (
+  id uuid not null default gen_random_uuid (),
+  user_id uuid not null,
+  code_hash text not null,
+  used_at timestamp with time zone null,
+  created_at timestamp with time zone not null default now(),
+  constraint mfa_recovery_codes_pkey primary key (id),
+  constraint mfa_recovery_codes_user_id_code_hash_key unique (user_id, code_hash),
+  constraint mfa_recovery_codes_user_id_fkey foreign KEY (user_id) references auth.users (id) on delete CASCADE
+) TABLESPACE pg_default;
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to mfa recovery codes" ON public.mfa_recovery_codes
+  FOR ALL TO service_role USING (true);
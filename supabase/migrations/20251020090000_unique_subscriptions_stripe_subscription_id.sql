@@ -0,0 +1,34 @@
+-- The webhook, the post-checkout sync and reconciliation can all write the same
+-- subscription at once. A unique key lets them upsert instead of racing on insert.
+
+-- Collapse duplicates left by earlier races, keeping the most recently updated row
+with ranked as (
+  select
+    id,
+    first_value(id) over (partition by stripe_subscription_id order by updated_at desc nulls last, id) as keep_id
+  from public.subscriptions
+  where stripe_subscription_id is not null
+)
+update public.team_members tm
+set subscription_id = ranked.keep_id
+from ranked
+where tm.subscription_id = ranked.id
+  and ranked.id <> ranked.keep_id
+  and not exists (
+    select 1 from public.team_members other
+    where other.subscription_id = ranked.keep_id and other.email = tm.email
+  );
+
+with ranked as (
+  select
+    id,
+    row_number() over (partition by stripe_subscription_id order by updated_at desc nulls last, id) as position
+  from public.subscriptions
+  where stripe_subscription_id is not null
+)
+delete from public.subscriptions s
+using ranked
+where s.id = ranked.id and ranked.position > 1;
+
+alter table public.subscriptions
+  add constraint subscriptions_stripe_subscription_id_key unique (stripe_subscription_id);
@@ -0,0 +1,4 @@
+-- When the current processing attempt started, so an attempt that died
+-- mid-way can be reclaimed by the next delivery
+alter table public.stripe_events
+  add column processing_started_at timestamp with time zone null;
@@ -0,0 +1,39 @@
+-- Add a team member only while a seat is free. The subscription row is locked
+-- so concurrent invites are counted one after another and can't overfill the team.
+CREATE OR REPLACE FUNCTION public.add_team_member(
+  p_subscription_id uuid,
+  p_owner_user_id uuid,
+  p_email text,
+  p_user_id uuid
+)
+  RETURNS SETOF public.team_members AS $$
+  DECLARE
+    v_seats integer;
+    v_members integer;
+  BEGIN
+    SELECT s.seats INTO v_seats
+    FROM public.subscriptions s
+    WHERE s.id = p_subscription_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'subscription_not_found';
+    END IF;
+
+    SELECT count(*) INTO v_members
+    FROM public.team_members m
+    WHERE m.subscription_id = p_subscription_id;
+
+    -- The owner takes one of the seats
+    IF v_members + 1 >= v_seats THEN
+      RAISE EXCEPTION 'seat_limit_reached';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.team_members (subscription_id, owner_user_id, email, user_id)
+    VALUES (p_subscription_id, p_owner_user_id, p_email, p_user_id)
+    RETURNING *;
+  END;
+  $$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.add_team_member(uuid, uuid, text, uuid) FROM PUBLIC, anon, authenticated;
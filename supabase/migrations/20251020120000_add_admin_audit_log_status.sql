@@ -0,0 +1,10 @@
+-- Audit rows are written before the Stripe call and completed afterwards, so
+-- an adjustment can't go through without a record. Existing rows were all
+-- written after the action succeeded.
+alter table public.admin_audit_log
+  add column status text not null default 'succeeded',
+  add column completed_at timestamp with time zone null,
+  add constraint admin_audit_log_status_check check (status in ('pending', 'succeeded', 'failed'));
+
+alter table public.admin_audit_log
+  alter column status set default 'pending';
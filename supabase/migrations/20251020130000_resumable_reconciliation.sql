@@ -0,0 +1,20 @@
+-- Reconciliation runs are processed a page at a time across several cron
+-- invocations, so each run keeps its position and a short lease
+alter table public.reconciliation_reports
+  -- Earlier reports were written once the run had finished
+  add column status text not null default 'completed',
+  add column phase text not null default 'subscriptions',
+  add column stripe_cursor text null,
+  add column row_cursor uuid null,
+  add column locked_until timestamp with time zone null,
+  add constraint reconciliation_reports_status_check check (status in ('running', 'completed', 'failed')),
+  add constraint reconciliation_reports_phase_check check (phase in ('subscriptions', 'rows'));
+
+-- One run at a time
+create unique index reconciliation_reports_one_running_idx on public.reconciliation_reports (status)
+  where status = 'running';
+
+-- Set when a run finds the row's Stripe subscription. Rows a run didn't
+-- reach are checked against Stripe before being treated as orphaned.
+alter table public.subscriptions
+  add column reconciled_at timestamp with time zone null;
@@ -0,0 +1,34 @@
+-- Team members get access through the owner's subscription, so middleware
+-- needs to read it with the member's session
+CREATE POLICY "Team members can read their team's subscription" ON public.subscriptions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.subscription_id = subscriptions.id
+        AND team_members.user_id = auth.uid()
+    )
+  );
+
+-- Invites can go to an email without an account, link them once it signs up
+CREATE OR REPLACE FUNCTION public.link_team_memberships()
+  RETURNS trigger AS $$
+  BEGIN
+    UPDATE public.team_members
+    SET user_id = NEW.id
+    WHERE user_id IS NULL
+      AND email = lower(NEW.email);
+
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_user_created_link_team_memberships
+  AFTER INSERT ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.link_team_memberships();
+
+-- Invites sent before this migration to people who have signed up since
+UPDATE public.team_members
+SET user_id = users.id
+FROM public.users
+WHERE team_members.user_id IS NULL
+  AND team_members.email = lower(users.email);
@@ -0,0 +1,4 @@
+-- Seat limits, access and billing state are read from this table, so only the
+-- service role (webhooks, API routes) writes to it
+DROP POLICY IF EXISTS "Users can update their own subscriptions" ON public.subscriptions;
+DROP POLICY IF EXISTS "Users can insert their own subscriptions" ON public.subscriptions;
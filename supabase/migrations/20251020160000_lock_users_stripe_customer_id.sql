@@ -0,0 +1,6 @@
+-- Billing routes resolve the Stripe customer from users.stripe_customer_id, so
+-- users can't write it. Column grants limit the "Users can update their own
+-- data" policy to the fields the app updates from the browser (reactivating a
+-- soft-deleted account); everything else is written by the service role.
+REVOKE UPDATE ON public.users FROM anon, authenticated;
+GRANT UPDATE (is_deleted, deleted_at, reactivated_at, updated_at) ON public.users TO authenticated;
@@ -0,0 +1,82 @@
+import type { supabaseAdmin } from '@/utils/supabase-admin';
+
+export type QueryOperation = 'select' | 'insert' | 'update' | 'upsert' | 'delete' | 'rpc';
+
+export interface RecordedQuery {
+  table: string;
+  operation: QueryOperation;
+  payload?: unknown;
+  options?: unknown;
+  // Filter and modifier calls in order, e.g. ['eq', 'user_id', 'user_1']
+  filters: unknown[][];
+}
+
+export interface QueryResult {
+  data?: unknown;
+  error?: unknown;
+  count?: number | null;
+}
+
+export type QueryResponder = (query: RecordedQuery) => QueryResult | undefined;
+
+const FILTER_METHODS = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'is', 'or', 'not', 'match', 'filter',
+  'order', 'limit', 'range', 'single', 'maybeSingle', 'select',
+];
+
+/**
+ * A stand-in for the Supabase client. Every query is recorded in `queries`
+ * and answered by `respond`, which gets the finished query (table, operation,
+ * payload and filters). Unanswered queries resolve to `{ data: null, error: null }`.
+ */
+export function createSupabaseMock(respond: QueryResponder = () => undefined) {
+  const queries: RecordedQuery[] = [];
+
+  const builder = (query: RecordedQuery) => {
+    const chain: Record<string, unknown> = {};
+
+    for (const method of FILTER_METHODS) {
+      chain[method] = (...args: unknown[]) => {
+        query.filters.push([method, ...args]);
+        return chain;
+      };
+    }
+
+    chain.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => {
+      queries.push(query);
+      try {
+        const result = respond(query) ?? {};
+        return Promise.resolve({ data: result.data ?? null, error: result.error ?? null, count: result.count ?? null })
+          .then(resolve, reject);
+      } catch (error) {
+        return Promise.reject(error).then(resolve, reject);
+      }
+    };
+
+    return chain;
+  };
+
+  const client = {
+    from: (table: string) => ({
+      select: (_columns?: string, options?: unknown) => builder({ table, operation: 'select', options, filters: [] }),
+      insert: (payload: unknown, options?: unknown) => builder({ table, operation: 'insert', payload, options, filters: [] }),
+      update: (payload: unknown, options?: unknown) => builder({ table, operation: 'update', payload, options, filters: [] }),
+      upsert: (payload: unknown, options?: unknown) => builder({ table, operation: 'upsert', payload, options, filters: [] }),
+      delete: (options?: unknown) => builder({ table, operation: 'delete', options, filters: [] }),
+    }),
+    rpc: (fn: string, payload?: unknown) => builder({ table: fn, operation: 'rpc', payload, filters: [] }),
+  };
+
+  return {
+    supabase: client as unknown as typeof supabaseAdmin,
+    queries,
+    // Queries against one table, optionally of one kind
+    queriesFor: (table: string, operation?: QueryOperation) =>
+      queries.filter(query => query.table === table && (!operation || query.operation === operation)),
+  };
+}
+
+// Look up a filter value recorded with e.g. `.eq(column, value)`
+export function filterValue(query: RecordedQuery, method: string, column: string) {
+  return query.filters.find(([name, field]) => name === method && field === column)?.[2];
+}
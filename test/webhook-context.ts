@@ -0,0 +1,51 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type Stripe from 'stripe';
+import { vi } from 'vitest';
+import { createSupabaseMock, type QueryResponder } from '@/test/supabase-mock';
+import type { StripeEventOf, WebhookContext } from '@/utils/stripe-webhook/types';
+
+/**
+ * A webhook context backed by fakes. Stub the Stripe calls a test needs on
+ * `stripe`; Supabase queries are recorded and answered by `respond`.
+ */
+export function createWebhookTestContext(respond?: QueryResponder) {
+  const supabase = createSupabaseMock(respond);
+  const stripe = {
+    subscriptions: { retrieve: vi.fn(), cancel: vi.fn() },
+    products: { retrieve: vi.fn() },
+    promotionCodes: { retrieve: vi.fn() },
+    invoices: { retrieve: vi.fn() },
+    taxRates: { retrieve: vi.fn() },
+    customers: { retrieve: vi.fn(), update: vi.fn(), listTaxIds: vi.fn() },
+  };
+
+  const context: WebhookContext = {
+    stripe: stripe as unknown as Stripe,
+    supabase: supabase.supabase,
+    log: vi.fn(),
+    invalidatePlanCatalog: vi.fn(),
+  };
+
+  return { context, stripe, supabase };
+}
+
+// Recorded events, one file per event type under test/fixtures/stripe-events
+export function loadStripeEvent<T extends Stripe.Event.Type>(type: T): StripeEventOf<T> {
+  return JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'stripe-events', `${type}.json`), 'utf8'));
+}
+
+/**
+ * Stands in for the shared stripe/supabaseAdmin clients so a handler that
+ * reaches for them instead of its context fails loudly.
+ */
+export function unreachableClient(name: string) {
+  const handler: ProxyHandler<() => void> = {
+    get: (_, property) => (property === 'then' ? undefined : new Proxy(() => {}, handler)),
+    apply: () => {
+      throw new Error(`The shared ${name} client was used instead of the webhook context`);
+    },
+  };
+
+  return new Proxy(() => {}, handler);
+}
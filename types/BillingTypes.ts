@@ -0,0 +1,35 @@
+export type TaxStatus = 'supported' | 'not_collecting' | 'unrecognized_location' | 'failed';
+
+export type TaxExempt = 'none' | 'exempt' | 'reverse';
+
+export type BillingAddress = {
+  line1: string | null;
+  line2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  country: string | null; // ISO 3166-1 alpha-2, e.g. "DE"
+};
+
+export type TaxIdSummary = {
+  id: string; // Stripe Tax ID
+  type: string; // e.g. "eu_vat"
+  value: string;
+  verificationStatus: 'pending' | 'verified' | 'unverified' | 'unavailable' | null;
+};
+
+export type BillingProfile = {
+  name: string | null;
+  address: BillingAddress;
+  taxExempt: TaxExempt;
+  taxStatus: TaxStatus | null; // Whether Stripe Tax can locate the customer
+  taxIds: TaxIdSummary[];
+};
+
+export type TaxBreakdownLine = {
+  name: string; // e.g. "VAT"
+  percentage: number | null;
+  amount: number; // Smallest currency unit
+  inclusive: boolean;
+  taxabilityReason: string | null; // e.g. "reverse_charge"
+};
@@ -0,0 +1,23 @@
+export type PlanInterval = 'day' | 'week' | 'month' | 'year';
+
+export type PlanPrice = {
+  id: string; // Stripe Price ID
+  unitAmount: number | null; // Smallest currency unit, e.g. cents
+  currency: string; // Default currency, unitAmount is in this currency
+  currencyOptions: Record<string, number | null>; // Unit amount per supported currency, including the default
+  interval: PlanInterval;
+  intervalCount: number;
+};
+
+export type Plan = {
+  id: string; // `plan_id` product metadata, e.g. "pro"
+  productId: string; // Stripe Product ID
+  name: string;
+  description: string;
+  features: string[];
+  order: number;
+  popular: boolean;
+  cta: string;
+  contactSales: boolean; // No self-serve price, CTA goes to sales
+  prices: PlanPrice[];
+};
@@ -0,0 +1,15 @@
+export type PromoDuration = 'once' | 'repeating' | 'forever';
+
+export type PromoDiscount = {
+  name: string | null;
+  percentOff: number | null;
+  amountOff: number | null; // Smallest currency unit, e.g. cents
+  currency: string | null;
+  duration: PromoDuration;
+  durationInMonths: number | null;
+};
+
+export type AppliedPromo = {
+  code: string;
+  discount: PromoDiscount;
+};
@@ -0,0 +1,31 @@
+export type DiscrepancyType =
+  | 'missing_row' // Stripe subscription with no subscriptions row
+  | 'orphaned_row' // Row whose Stripe subscription no longer exists
+  | 'unlinked_customer' // Stripe subscription whose customer we can't tie to a user
+  | 'status'
+  | 'current_period_end'
+  | 'cancel_at_period_end'
+  | 'price_id'
+  | 'error'; // Couldn't be checked or fixed, see `actual`
+
+export type Discrepancy = {
+  type: DiscrepancyType;
+  stripeSubscriptionId: string;
+  stripeCustomerId: string | null;
+  expected?: unknown; // Stripe's value
+  actual?: unknown; // Our value
+  fixed: boolean;
+};
+
+export type ReconciliationReport = {
+  id: string;
+  status: 'running' | 'completed' | 'failed'; // Running reports are continued by the cron
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string | null;
+  subscriptionsChecked: number;
+  customersChecked: number;
+  discrepancyCount: number;
+  fixedCount: number;
+  discrepancies: Discrepancy[];
+};
@@ -0,0 +1,7 @@
+export type CurrentUsage = {
+  quantity: number;
+  periodStart: string | null;
+  periodEnd: string;
+  unitAmount: number | null; // Price per unit in the smallest currency unit
+  currency: string;
+};
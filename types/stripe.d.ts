@@ -3,16 +3,6 @@
 // Import the Stripe namespace
 import Stripe from 'stripe';
 
-// Extend the JSX namespace for the Stripe Buy Button
-declare namespace JSX {
-  interface IntrinsicElements {
-    'stripe-buy-button': {
-      'buy-button-id': string;
-      'publishable-key': string;
-    }
-  }
-}
-
 // Export Stripe types if needed elsewhere
 export type StripeCheckoutSession = Stripe.Checkout.Session;
 export type StripeEvent = Stripe.Event; 
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { supabaseAdmin } from '@/utils/supabase-admin';
+
+export type AdminAction = 'refund.created' | 'credit_note.created';
+
+export type AdminActionStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface AdminAuditEntry {
+  adminUserId: string;
+  action: AdminAction;
+  targetType: 'invoice';
+  targetId: string;
+  reason: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record an admin action as pending before it runs and return the audit row
+ * ID. Throws if the row can't be written, so the action never happens
+ * without a record.
+ */
+export async function startAdminAction(entry: AdminAuditEntry): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_audit_log')
+    .insert({
+      admin_user_id: entry.adminUserId,
+      action: entry.action,
+      target_type: entry.targetType,
+      target_id: entry.targetId,
+      reason: entry.reason,
+      status: 'pending',
+      details: entry.details ?? {}
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error writing admin audit log:', { entry, error });
+    throw error;
+  }
+
+  return data.id;
+}
+
+/**
+ * Mark a pending action as finished. The action has already happened by now,
+ * so a failed write is logged rather than thrown; the pending row remains.
+ */
+export async function completeAdminAction(
+  auditId: string,
+  status: Exclude<AdminActionStatus, 'pending'>,
+  details: Record<string, unknown>
+) {
+  const { error } = await supabaseAdmin
+    .from('admin_audit_log')
+    .update({
+      status,
+      details,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', auditId);
+
+  if (error) {
+    console.error('Error completing admin audit log entry:', { auditId, status, details, error });
+  }
+}
@@ -0,0 +1,133 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+
+export type AdjustmentResult<T> =
+  | { ok: true; result: T }
+  | { ok: false; reason: string };
+
+export const REFUND_REASONS: Stripe.RefundCreateParams.Reason[] = ['duplicate', 'fraudulent', 'requested_by_customer'];
+
+export const CREDIT_NOTE_REASONS: Stripe.CreditNoteCreateParams.Reason[] = [
+  'duplicate',
+  'fraudulent',
+  'order_change',
+  'product_unsatisfactory'
+];
+
+// Stripe accepts idempotency keys up to 255 characters, including our prefix
+const MAX_CLIENT_KEY_LENGTH = 200;
+
+/**
+ * Stripe idempotency key for an adjustment, from the key the admin form
+ * generates once per submission. Retrying that submission returns the first
+ * result, while a second adjustment with the same amount gets its own key.
+ * Returns null when the client didn't send a usable key.
+ */
+export function getAdjustmentIdempotencyKey(kind: 'refund' | 'credit-note', clientKey: unknown) {
+  if (typeof clientKey !== 'string') return null;
+
+  const key = clientKey.trim();
+  if (!key || key.length > MAX_CLIENT_KEY_LENGTH) return null;
+
+  return `${kind}-${key}`;
+}
+
+/**
+ * Refund an invoice's payment, in full when no amount is given. The reason is
+ * kept in metadata so it shows up next to the refund in the dashboard.
+ */
+export async function refundInvoice(
+  invoiceId: string,
+  {
+    amount,
+    reason,
+    stripeReason,
+    adminUserId,
+    idempotencyKey
+  }: {
+    amount?: number;
+    reason: string;
+    stripeReason?: Stripe.RefundCreateParams.Reason;
+    adminUserId: string;
+    idempotencyKey: string;
+  }
+): Promise<AdjustmentResult<Stripe.Refund>> {
+  const invoice = await stripe.invoices.retrieve(invoiceId, { expand: ['charge'] });
+  const charge = invoice.charge as Stripe.Charge | null;
+
+  if (invoice.status !== 'paid' || !charge) {
+    return { ok: false, reason: 'Only paid invoices can be refunded' };
+  }
+
+  const refundable = charge.amount - charge.amount_refunded;
+
+  if (refundable <= 0) {
+    return { ok: false, reason: 'This invoice has already been fully refunded' };
+  }
+
+  if (amount !== undefined && amount > refundable) {
+    return { ok: false, reason: `At most ${refundable} can still be refunded` };
+  }
+
+  const refund = await stripe.refunds.create({
+    charge: charge.id,
+    amount: amount ?? refundable,
+    ...(stripeReason ? { reason: stripeReason } : {}),
+    metadata: { invoice_id: invoice.id, admin_user_id: adminUserId, reason }
+  }, { idempotencyKey });
+
+  return { ok: true, result: refund };
+}
+
+/**
+ * Issue a credit note against an invoice, in full when no amount is given.
+ * Open invoices are reduced, paid ones credit the customer's balance so the
+ * amount comes off their next invoice.
+ */
+export async function creditInvoice(
+  invoiceId: string,
+  {
+    amount,
+    reason,
+    creditReason,
+    adminUserId,
+    idempotencyKey
+  }: {
+    amount?: number;
+    reason: string;
+    creditReason?: Stripe.CreditNoteCreateParams.Reason;
+    adminUserId: string;
+    idempotencyKey: string;
+  }
+): Promise<AdjustmentResult<Stripe.CreditNote>> {
+  const invoice = await stripe.invoices.retrieve(invoiceId);
+
+  if (invoice.status !== 'open' && invoice.status !== 'paid') {
+    return { ok: false, reason: 'Credit notes can only be issued for open or paid invoices' };
+  }
+
+  const creditable = invoice.status === 'paid'
+    ? invoice.total - invoice.post_payment_credit_notes_amount
+    : invoice.amount_remaining;
+
+  if (creditable <= 0) {
+    return { ok: false, reason: 'This invoice has already been fully credited' };
+  }
+
+  if (amount !== undefined && amount > creditable) {
+    return { ok: false, reason: `At most ${creditable} can still be credited` };
+  }
+
+  const creditAmount = amount ?? creditable;
+
+  const creditNote = await stripe.creditNotes.create({
+    invoice: invoice.id,
+    amount: creditAmount,
+    ...(invoice.status === 'paid' ? { credit_amount: creditAmount } : {}),
+    ...(creditReason ? { reason: creditReason } : {}),
+    memo: reason,
+    metadata: { admin_user_id: adminUserId, reason }
+  }, { idempotencyKey });
+
+  return { ok: true, result: creditNote };
+}
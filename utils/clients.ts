@@ -0,0 +1,12 @@
+import type Stripe from 'stripe';
+import type { supabaseAdmin } from '@/utils/supabase-admin';
+
+/**
+ * The Stripe and Supabase clients a billing helper talks to. Helpers default
+ * to the shared ones; the webhook passes its context so handlers can run
+ * against fakes.
+ */
+export interface BillingClients {
+  stripe: Stripe;
+  supabase: typeof supabaseAdmin;
+}
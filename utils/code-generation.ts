@@ -0,0 +1,57 @@
+const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
+
+const SYSTEM_PROMPT = [
+  'You turn user feedback about a web app into a TypeScript code change that addresses it.',
+  'Reply with the code only, no Markdown fences and no explanation outside code comments.',
+].join(' ');
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  error?: { message?: string };
+}
+
+// Models sometimes wrap the answer in a fence despite the prompt
+function stripCodeFence(text: string) {
+  return text.replace(/^```[\w-]*\n([\s\S]*?)\n?```$/, '$1').trim();
+}
+
+/**
+ * Generate code for a piece of user feedback with OpenAI. Throws when the
+ * request fails or comes back empty, so callers only bill for real output.
+ */
+export async function generateCode(feedback: string): Promise<string> {
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  const response = await fetch(OPENAI_CHAT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: feedback },
+      ],
+    }),
+  });
+
+  const data: ChatCompletionResponse = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error?.message || `OpenAI request failed with ${response.status}`);
+  }
+
+  const code = stripCodeFence(data.choices?.[0]?.message?.content ?? '');
+
+  if (!code) {
+    throw new Error('OpenAI returned no code');
+  }
+
+  return code;
+}
@@ -14,6 +14,7 @@ function getCorsHeaders(request: NextRequest) {
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, Authorization, stripe-signature, x-client-info',
     'Access-Control-Max-Age': '86400', // 24 hours
+    'Access-Control-Expose-Headers': 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After',
   };
 }
 
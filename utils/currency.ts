@@ -0,0 +1,51 @@
+export const DEFAULT_CURRENCY = 'usd';
+
+// Currencies Stripe charges in whole units, see https://docs.stripe.com/currencies#zero-decimal
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga',
+  'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+]);
+
+// Regions whose local currency we'd default to, when a plan is priced in it
+const REGION_CURRENCIES: Record<string, string> = {
+  US: 'usd', GB: 'gbp', CA: 'cad', AU: 'aud', NZ: 'nzd', JP: 'jpy', IN: 'inr',
+  CH: 'chf', SE: 'sek', NO: 'nok', DK: 'dkk', PL: 'pln', BR: 'brl', MX: 'mxn', SG: 'sgd',
+  AT: 'eur', BE: 'eur', DE: 'eur', ES: 'eur', FI: 'eur', FR: 'eur', GR: 'eur',
+  IE: 'eur', IT: 'eur', LU: 'eur', NL: 'eur', PT: 'eur',
+};
+
+export function isZeroDecimalCurrency(currency: string) {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase());
+}
+
+// Stripe amounts are in the smallest currency unit, e.g. cents
+export function fromMinorUnits(amount: number, currency: string) {
+  return isZeroDecimalCurrency(currency) ? amount : amount / 100;
+}
+
+/**
+ * Format a Stripe amount for display. `trimZeros` drops the decimals from
+ * round amounts, e.g. "$19" rather than "$19.00" on pricing cards.
+ */
+export function formatCurrency(
+  amount: number,
+  currency: string,
+  { locale, trimZeros = false }: { locale?: string; trimZeros?: boolean } = {}
+) {
+  const value = fromMinorUnits(amount, currency);
+
+  return value.toLocaleString(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    ...(trimZeros && Number.isInteger(value) ? { minimumFractionDigits: 0 } : {}),
+  });
+}
+
+export function getLocaleCurrency(locale: string): string | null {
+  try {
+    const region = new Intl.Locale(locale).maximize().region;
+    return region ? REGION_CURRENCIES[region] ?? null : null;
+  } catch {
+    return null;
+  }
+}
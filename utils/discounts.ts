@@ -0,0 +1,18 @@
+import { DEFAULT_CURRENCY, formatCurrency } from '@/utils/currency';
+import type { PromoDiscount } from '@/types/PromoTypes';
+
+// e.g. "20% off for 3 months", "$10.00 off the first payment"
+export function formatDiscount(discount: PromoDiscount) {
+  const amount = discount.percentOff
+    ? `${discount.percentOff}% off`
+    : `${formatCurrency(discount.amountOff ?? 0, discount.currency || DEFAULT_CURRENCY)} off`;
+
+  switch (discount.duration) {
+    case 'once':
+      return `${amount} the first payment`;
+    case 'repeating':
+      return `${amount} for ${discount.durationInMonths} ${discount.durationInMonths === 1 ? 'month' : 'months'}`;
+    default:
+      return `${amount} forever`;
+  }
+}
@@ -0,0 +1,88 @@
+import { createHash, randomInt } from 'crypto';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+
+const RECOVERY_CODE_COUNT = 10;
+// No 0/O or 1/I/L so codes survive being written down
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string) {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// randomInt rejection-samples, so every character is equally likely (a byte
+// modulo the 31-character alphabet would favour the first few)
+function randomRecoveryCode() {
+  const characters = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]);
+  return `${characters.slice(0, 5).join('')}-${characters.slice(5).join('')}`;
+}
+
+/**
+ * Replace the user's recovery codes. Only hashes are stored, so the codes
+ * returned here are the only time they can be shown.
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+
+  await deleteRecoveryCodes(userId);
+
+  const { error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .insert(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+
+  if (error) throw error;
+  return codes;
+}
+
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function deleteRecoveryCodes(userId: string) {
+  const { error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Spend a recovery code. On success the user's TOTP factors are removed, so
+ * their next session only needs a password and they can enroll again.
+ */
+export async function redeemRecoveryCode(userId: string, code: string): Promise<boolean> {
+  // Only one request can mark the code used
+  const { data, error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id');
+
+  if (error) throw error;
+  if (!data?.length) return false;
+
+  const { data: factors, error: listError } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId });
+  if (listError) throw listError;
+
+  for (const factor of factors.factors) {
+    const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+    if (deleteError) throw deleteError;
+  }
+
+  // The remaining codes belonged to the factors that were just removed
+  await deleteRecoveryCodes(userId);
+  return true;
+}
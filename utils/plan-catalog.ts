@@ -0,0 +1,129 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import type { Plan, PlanPrice } from '@/types/PlanTypes';
+
+/**
+ * Plans are Stripe products tagged with a `plan_id` metadata key. The rest of
+ * the card content comes from product metadata:
+ *   - features: "|" separated list (falls back to the product's marketing features)
+ *   - order: sort position, lowest first
+ *   - popular: "true" to highlight the plan
+ *   - cta: button label
+ *   - contact_sales: "true" for plans sold by the sales team, without a self-serve price
+ */
+const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+let cachedPlans: { plans: Plan[]; expiresAt: number } | null = null;
+let pendingFetch: Promise<Plan[]> | null = null;
+
+export function toPlanPrice(price: Stripe.Price): PlanPrice | null {
+  if (!price.recurring) return null;
+
+  // currency_options is only present when expanded
+  const currencyOptions: Record<string, number | null> = { [price.currency]: price.unit_amount };
+  for (const [currency, option] of Object.entries(price.currency_options || {})) {
+    currencyOptions[currency] = option.unit_amount;
+  }
+
+  return {
+    id: price.id,
+    unitAmount: price.unit_amount,
+    currency: price.currency,
+    currencyOptions,
+    interval: price.recurring.interval,
+    intervalCount: price.recurring.interval_count,
+  };
+}
+
+function parseFeatures(product: Stripe.Product) {
+  if (product.metadata.features) {
+    return product.metadata.features
+      .split('|')
+      .map(feature => feature.trim())
+      .filter(Boolean);
+  }
+
+  return product.marketing_features
+    .map(feature => feature.name)
+    .filter((name): name is string => !!name);
+}
+
+function toPlan(product: Stripe.Product, prices: Stripe.Price[]): Plan {
+  const contactSales = product.metadata.contact_sales === 'true';
+
+  return {
+    id: product.metadata.plan_id,
+    productId: product.id,
+    name: product.name,
+    description: product.description || '',
+    features: parseFeatures(product),
+    order: Number(product.metadata.order) || 0,
+    popular: product.metadata.popular === 'true',
+    cta: product.metadata.cta || (contactSales ? 'Contact Sales' : 'Get Started'),
+    contactSales,
+    prices: contactSales
+      ? []
+      : prices
+          .map(toPlanPrice)
+          .filter((price): price is PlanPrice => !!price)
+          .sort((a, b) => (a.unitAmount ?? 0) - (b.unitAmount ?? 0)),
+  };
+}
+
+async function fetchPlans(): Promise<Plan[]> {
+  const [products, prices] = await Promise.all([
+    stripe.products.list({ active: true, limit: 100 }).autoPagingToArray({ limit: 1000 }),
+    stripe.prices
+      .list({ active: true, type: 'recurring', limit: 100, expand: ['data.currency_options'] })
+      .autoPagingToArray({ limit: 1000 }),
+  ]);
+
+  const pricesByProduct = new Map<string, Stripe.Price[]>();
+  for (const price of prices) {
+    const productId = typeof price.product === 'string' ? price.product : price.product.id;
+    pricesByProduct.set(productId, [...(pricesByProduct.get(productId) || []), price]);
+  }
+
+  return products
+    .filter(product => product.metadata.plan_id)
+    .map(product => toPlan(product, pricesByProduct.get(product.id) || []))
+    // A self-serve plan without an active price can't be bought, so hide it
+    .filter(plan => plan.contactSales || plan.prices.length > 0)
+    .sort((a, b) => a.order - b.order);
+}
+
+export async function getPlanCatalog(): Promise<Plan[]> {
+  if (cachedPlans && cachedPlans.expiresAt > Date.now()) {
+    return cachedPlans.plans;
+  }
+
+  // Share one Stripe round trip between concurrent requests on a cold cache
+  if (!pendingFetch) {
+    pendingFetch = fetchPlans()
+      .then(plans => {
+        cachedPlans = { plans, expiresAt: Date.now() + CACHE_TTL_MS };
+        return plans;
+      })
+      .finally(() => {
+        pendingFetch = null;
+      });
+  }
+
+  return pendingFetch;
+}
+
+// Only prices of the plans we sell can start or change a subscription
+export async function isCatalogPrice(priceId: string) {
+  const plans = await getPlanCatalog();
+  return plans.some(plan => plan.prices.some(price => price.id === priceId));
+}
+
+// A customer's currency is fixed once they've been billed, so a new price must be offered in it
+export function priceSupportsCurrency(price: Stripe.Price, currency: string) {
+  return price.currency === currency || !!price.currency_options?.[currency];
+}
+
+// Called from the webhook when products or prices change in Stripe
+export function invalidatePlanCatalog() {
+  cachedPlans = null;
+}
@@ -0,0 +1,91 @@
+import { formatCurrency } from '@/utils/currency';
+import type { Plan, PlanInterval, PlanPrice } from '@/types/PlanTypes';
+
+export function getPlanPrice(plan: Plan, interval: PlanInterval = 'month'): PlanPrice | null {
+  return plan.prices.find(price => price.interval === interval && price.intervalCount === 1)
+    ?? plan.prices[0]
+    ?? null;
+}
+
+export function supportsCurrency(price: PlanPrice, currency: string) {
+  return currency in price.currencyOptions;
+}
+
+// Prices fall back to their default currency when not offered in the requested one
+export function formatPlanPrice(price: PlanPrice | null, currency?: string) {
+  const priceCurrency = price && currency && supportsCurrency(price, currency) ? currency : price?.currency;
+  const amount = price && priceCurrency ? price.currencyOptions[priceCurrency] : null;
+
+  if (!priceCurrency || amount === null || amount === undefined) return 'Custom';
+
+  return formatCurrency(amount, priceCurrency, { trimZeros: true });
+}
+
+// Every currency at least one self-serve plan can be bought in
+export function getPlanCurrencies(plans: Plan[]) {
+  const currencies = new Set<string>();
+  for (const plan of plans) {
+    for (const price of plan.prices) {
+      Object.keys(price.currencyOptions).forEach(currency => currencies.add(currency));
+    }
+  }
+  return [...currencies].sort();
+}
+
+export function formatPlanInterval(price: PlanPrice | null) {
+  if (!price) return '';
+  return price.intervalCount === 1 ? `/${price.interval}` : `/${price.intervalCount} ${price.interval}s`;
+}
+
+const MONTHS_PER_INTERVAL: Record<PlanInterval, number> = {
+  day: 12 / 365,
+  week: 12 / 52,
+  month: 1,
+  year: 12,
+};
+
+function intervalInMonths(price: PlanPrice) {
+  return MONTHS_PER_INTERVAL[price.interval] * price.intervalCount;
+}
+
+// Price per month, so prices with different billing intervals can be compared
+export function monthlyAmount(price: PlanPrice) {
+  return (price.unitAmount ?? 0) / intervalInMonths(price);
+}
+
+export function isIntervalChange(currentPrice: PlanPrice, newPrice: PlanPrice) {
+  return currentPrice.interval !== newPrice.interval || currentPrice.intervalCount !== newPrice.intervalCount;
+}
+
+/**
+ * A move to a cheaper plan, or to a shorter interval on the same plan since
+ * the longer one is already paid for. Both wait for the period to end.
+ */
+export function isPlanDowngrade(
+  current: { productId: string; price: PlanPrice },
+  target: { productId: string; price: PlanPrice }
+) {
+  if (current.productId === target.productId) {
+    return intervalInMonths(target.price) < intervalInMonths(current.price);
+  }
+
+  return monthlyAmount(target.price) < monthlyAmount(current.price);
+}
+
+export function hasYearlyPrices(plans: Plan[]) {
+  return plans.some(plan => plan.prices.some(price => price.interval === 'year'));
+}
+
+// How much cheaper a year on the yearly price is than twelve monthly payments
+export function getYearlySavingsPercent(plan: Plan) {
+  const monthly = plan.prices.find(price => price.interval === 'month' && price.intervalCount === 1);
+  const yearly = plan.prices.find(price => price.interval === 'year' && price.intervalCount === 1);
+
+  if (!monthly?.unitAmount || !yearly?.unitAmount) return 0;
+
+  return Math.max(0, Math.round((1 - yearly.unitAmount / (monthly.unitAmount * 12)) * 100));
+}
+
+export function getMaxYearlySavingsPercent(plans: Plan[]) {
+  return Math.max(0, ...plans.map(getYearlySavingsPercent));
+}
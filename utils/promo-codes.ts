@@ -0,0 +1,101 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import type { BillingClients } from '@/utils/clients';
+import type { PromoDiscount } from '@/types/PromoTypes';
+
+export type PromoValidationResult =
+  | { valid: true; promotionCode: Stripe.PromotionCode; discount: PromoDiscount }
+  | { valid: false; reason: string };
+
+export function describeCoupon(coupon: Stripe.Coupon): PromoDiscount {
+  return {
+    name: coupon.name,
+    percentOff: coupon.percent_off,
+    amountOff: coupon.amount_off,
+    currency: coupon.currency,
+    duration: coupon.duration,
+    durationInMonths: coupon.duration_in_months,
+  };
+}
+
+/**
+ * Look up a customer-facing code and check it can be redeemed, optionally for
+ * a specific price. Stripe enforces the same rules again when the discount is
+ * applied, this just lets us reject bad codes before checkout.
+ */
+export async function validatePromotionCode(code: string, priceId?: string): Promise<PromoValidationResult> {
+  const { data } = await stripe.promotionCodes.list({
+    code: code.trim(),
+    active: true,
+    limit: 1,
+    expand: ['data.coupon.applies_to'],
+  });
+
+  const promotionCode = data[0];
+
+  if (!promotionCode || !promotionCode.coupon.valid) {
+    return { valid: false, reason: 'This code is invalid or has expired' };
+  }
+
+  if (promotionCode.expires_at && promotionCode.expires_at * 1000 < Date.now()) {
+    return { valid: false, reason: 'This code has expired' };
+  }
+
+  if (promotionCode.max_redemptions && promotionCode.times_redeemed >= promotionCode.max_redemptions) {
+    return { valid: false, reason: 'This code has reached its redemption limit' };
+  }
+
+  const appliesTo = promotionCode.coupon.applies_to?.products;
+  if (priceId && appliesTo?.length) {
+    const price = await stripe.prices.retrieve(priceId);
+    const productId = typeof price.product === 'string' ? price.product : price.product.id;
+
+    if (!appliesTo.includes(productId)) {
+      return { valid: false, reason: 'This code does not apply to the selected plan' };
+    }
+  }
+
+  return { valid: true, promotionCode, discount: describeCoupon(promotionCode.coupon) };
+}
+
+/**
+ * Discount columns for the subscriptions row, cleared when the subscription
+ * has no discount (e.g. a repeating coupon ran out).
+ */
+export async function getDiscountColumns(
+  subscription: Stripe.Subscription,
+  clients: Pick<BillingClients, 'stripe'> = { stripe }
+) {
+  const discount = subscription.discount;
+
+  if (!discount) {
+    return {
+      discount_code: null,
+      discount_coupon_id: null,
+      discount_name: null,
+      discount_percent_off: null,
+      discount_amount_off: null,
+      discount_currency: null,
+      discount_duration: null,
+      discount_duration_in_months: null,
+      discount_ends_at: null,
+    };
+  }
+
+  // Webhook payloads only carry the promotion code ID
+  const promotionCode = typeof discount.promotion_code === 'string'
+    ? await clients.stripe.promotionCodes.retrieve(discount.promotion_code)
+    : discount.promotion_code;
+
+  return {
+    discount_code: promotionCode?.code ?? null,
+    discount_coupon_id: discount.coupon.id,
+    discount_name: discount.coupon.name,
+    discount_percent_off: discount.coupon.percent_off,
+    discount_amount_off: discount.coupon.amount_off,
+    discount_currency: discount.coupon.currency,
+    discount_duration: discount.coupon.duration,
+    discount_duration_in_months: discount.coupon.duration_in_months,
+    discount_ends_at: discount.end ? new Date(discount.end * 1000).toISOString() : null,
+  };
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/utils/supabase-admin', () => ({ supabaseAdmin: {} }));
+vi.mock('@/utils/auth', () => ({ getAuthenticatedUser: async () => null }));
+
+import { createMemoryStore, getClientIp, setRateLimitStore, withRateLimit } from './rate-limit';
+
+const failingStore = {
+  hit: async () => {
+    throw new Error('connection refused');
+  },
+};
+
+function request() {
+  return new NextRequest('http://localhost:3000/api/test', { headers: { 'x-forwarded-for': '203.0.113.7' } });
+}
+
+describe('withRateLimit', () => {
+  afterEach(() => {
+    setRateLimitStore(createMemoryStore());
+  });
+
+  it('answers 429 once the limit is used up', async () => {
+    setRateLimitStore(createMemoryStore());
+    const handler = withRateLimit({ name: 'test', ip: { limit: 1, windowMs: 60000 } }, async () => NextResponse.json({ ok: true }));
+
+    expect((await handler(request())).status).toBe(200);
+    expect((await handler(request())).status).toBe(429);
+  });
+
+  it('lets requests through when the store is unavailable', async () => {
+    setRateLimitStore(failingStore);
+    const handler = withRateLimit({ name: 'test', ip: { limit: 1, windowMs: 60000 } }, async () => NextResponse.json({ ok: true }));
+
+    expect((await handler(request())).status).toBe(200);
+  });
+
+  it('refuses requests for failClosed limits when the store is unavailable', async () => {
+    setRateLimitStore(failingStore);
+    const inner = vi.fn(async () => NextResponse.json({ ok: true }));
+    const handler = withRateLimit({ name: 'test', ip: { limit: 1, windowMs: 60000 }, failClosed: true }, inner);
+
+    expect((await handler(request())).status).toBe(503);
+    expect(inner).not.toHaveBeenCalled();
+  });
+});
+
+describe('getClientIp', () => {
+  it('uses the proxy-appended address, not one the client sent', () => {
+    const spoofed = new NextRequest('http://localhost:3000/api/test', {
+      headers: { 'x-forwarded-for': '198.51.100.1, 203.0.113.7' },
+    });
+
+    expect(getClientIp(spoofed)).toBe('203.0.113.7');
+  });
+});
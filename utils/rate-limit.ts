@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { getAuthenticatedUser } from '@/utils/auth';
+
+export interface RateLimitRule {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitConfig {
+  name: string; // Bucket name, routes sharing a name share their counters
+  user?: RateLimitRule;
+  ip?: RateLimitRule;
+  failClosed?: boolean; // Answer 503 instead of skipping the limit when the store is unavailable
+}
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number; // Epoch ms
+}
+
+// Counts hits in a fixed window per key
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+interface RateLimitResult {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * Counters in this server instance's memory. Fine for local development and
+ * single-instance deployments, on serverless each instance counts separately.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const current = windows.get(key);
+
+      if (!current || current.resetAt <= now) {
+        // Drop expired windows as we go so the map doesn't grow forever
+        for (const [storedKey, window] of windows) {
+          if (window.resetAt <= now) windows.delete(storedKey);
+        }
+
+        const fresh = { count: 1, resetAt: now + windowMs };
+        windows.set(key, fresh);
+        return fresh;
+      }
+
+      current.count += 1;
+      return current;
+    },
+  };
+}
+
+/**
+ * Counters in the rate_limits table, shared by every instance. Each hit is a
+ * single atomic call to the increment_rate_limit function.
+ */
+export function createPostgresStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const { data, error } = await supabaseAdmin
+        .rpc('increment_rate_limit', { p_key: key, p_window_ms: windowMs })
+        .single<{ count: number; reset_at: string }>();
+
+      if (error) throw error;
+      return { count: data.count, resetAt: new Date(data.reset_at).getTime() };
+    },
+  };
+}
+
+// RATE_LIMIT_STORE=memory for local development, Postgres otherwise
+let store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'memory'
+  ? createMemoryStore()
+  : createPostgresStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+/**
+ * The caller's IP as seen by the proxy in front of the app. Clients can send
+ * their own X-Forwarded-For, so only the last entry counts: the one the proxy
+ * appended (Vercel replaces the header with the connecting IP outright).
+ */
+export function getClientIp(request: NextRequest) {
+  const forwarded = request.headers.get('x-forwarded-for');
+  return forwarded?.split(',').pop()?.trim() || request.headers.get('x-real-ip') || 'unknown';
+}
+
+async function check(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const { count, resetAt } = await store.hit(key, rule.windowMs);
+
+  return {
+    limited: count > rule.limit,
+    limit: rule.limit,
+    remaining: Math.max(rule.limit - count, 0),
+    resetAt,
+  };
+}
+
+function setRateLimitHeaders(response: Response, result: RateLimitResult) {
+  const resetSeconds = Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 0);
+
+  response.headers.set('RateLimit-Limit', String(result.limit));
+  response.headers.set('RateLimit-Remaining', String(result.remaining));
+  response.headers.set('RateLimit-Reset', String(resetSeconds));
+
+  if (result.limited) {
+    response.headers.set('Retry-After', String(resetSeconds));
+  }
+}
+
+/**
+ * Wrap a route handler with the limits in `config`. Over the limit it answers
+ * 429 without calling the handler; either way the response carries
+ * RateLimit-* headers for the tightest limit that applied. If the store is
+ * unavailable the request is let through rather than taking the route down,
+ * unless the config sets `failClosed`.
+ */
+export function withRateLimit<T extends (request: NextRequest) => Promise<Response>>(config: RateLimitConfig, handler: T) {
+  return async function rateLimitedHandler(request: NextRequest) {
+    let results: RateLimitResult[] = [];
+
+    try {
+      const user = config.user ? await getAuthenticatedUser(request) : null;
+
+      results = await Promise.all([
+        config.ip ? check(`${config.name}:ip:${getClientIp(request)}`, config.ip) : null,
+        user && config.user ? check(`${config.name}:user:${user.id}`, config.user) : null,
+      ]).then(checks => checks.filter((result): result is RateLimitResult => !!result));
+    } catch (error) {
+      console.error('Rate limit check failed:', error);
+
+      if (config.failClosed) {
+        return NextResponse.json(
+          { error: 'Service temporarily unavailable, please try again later' },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Report the limit closest to running out, or the one that was hit
+    const tightest = results.find(result => result.limited)
+      ?? [...results].sort((a, b) => a.remaining - b.remaining)[0];
+
+    if (tightest?.limited) {
+      const response = NextResponse.json(
+        { error: 'Too many requests, please try again later' },
+        { status: 429 }
+      );
+      setRateLimitHeaders(response, tightest);
+      return response;
+    }
+
+    const response = await handler(request);
+    if (tightest) setRateLimitHeaders(response, tightest);
+    return response;
+  };
+}
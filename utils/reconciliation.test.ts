@@ -0,0 +1,164 @@
+import Stripe from 'stripe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, filterValue, type RecordedQuery } from '@/test/supabase-mock';
+
+const mocks = vi.hoisted(() => ({
+  stripe: {
+    products: { list: vi.fn() },
+    subscriptions: { list: vi.fn(), retrieve: vi.fn() },
+  },
+  supabase: { current: null as ReturnType<typeof createSupabaseMock> | null },
+}));
+
+vi.mock('@/utils/stripe', () => ({ stripe: mocks.stripe }));
+vi.mock('@/utils/supabase-admin', () => ({
+  get supabaseAdmin() {
+    return mocks.supabase.current!.supabase;
+  },
+}));
+
+import { runReconciliation } from './reconciliation';
+
+const STARTED_AT = '2025-10-20T03:00:00.000Z';
+const PERIOD_END = 1767225600;
+
+const run = {
+  id: 'run_1',
+  dry_run: false,
+  status: 'running',
+  phase: 'subscriptions',
+  stripe_cursor: null,
+  row_cursor: null,
+  started_at: STARTED_AT,
+  finished_at: null,
+  subscriptions_checked: 0,
+  customers_checked: 0,
+  discrepancy_count: 0,
+  fixed_count: 0,
+  discrepancies: [],
+  error: null,
+};
+
+function stripeSubscription(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    customer: { id: 'cus_1', object: 'customer', metadata: {} },
+    status: 'active',
+    metadata: { user_id: 'user_1' },
+    currency: 'usd',
+    created: 1760000000,
+    cancel_at_period_end: false,
+    pause_collection: null,
+    current_period_start: PERIOD_END - 2592000,
+    current_period_end: PERIOD_END,
+    items: { data: [{ id: 'si_1', quantity: 1, price: { id: 'price_basic', product: 'prod_basic', recurring: { usage_type: 'licensed' } } }] },
+    ...overrides,
+  } as unknown as Stripe.Subscription;
+}
+
+function subscriptionRow(id: string, stripeSubscriptionId: string) {
+  return {
+    id,
+    user_id: 'user_1',
+    stripe_subscription_id: stripeSubscriptionId,
+    stripe_customer_id: 'cus_1',
+    status: 'active',
+    price_id: 'price_basic',
+    current_period_end: new Date(PERIOD_END * 1000).toISOString(),
+    cancel_at_period_end: false,
+  };
+}
+
+const isOrphanQuery = (query: RecordedQuery) =>
+  query.table === 'subscriptions' && query.operation === 'select' && filterValue(query, 'lt', 'created_at') !== undefined;
+
+function setup({ listed = [] as Stripe.Subscription[], rows = [] as unknown[], unreached = [] as unknown[] }) {
+  mocks.supabase.current = createSupabaseMock(query => {
+    if (query.table === 'reconciliation_reports' && query.operation === 'insert') return { data: run };
+    // Claiming the run's lease
+    if (query.table === 'reconciliation_reports' && query.operation === 'update' && query.filters.some(([name]) => name === 'select')) {
+      return { data: run };
+    }
+    if (isOrphanQuery(query)) return { data: unreached };
+    if (query.table === 'subscriptions' && query.operation === 'select') return { data: rows };
+    if (query.table === 'users') return { data: [] };
+    return undefined;
+  });
+
+  mocks.stripe.subscriptions.list.mockResolvedValue({ data: listed, has_more: false });
+}
+
+describe('runReconciliation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.stripe.products.list.mockReturnValue({
+      autoPagingToArray: async () => [{ id: 'prod_basic', name: 'Basic' }],
+    });
+  });
+
+  it('checks rows missing from the listing against Stripe before canceling them', async () => {
+    setup({ unreached: [subscriptionRow('row_new', 'sub_new')] });
+    mocks.stripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription('sub_new'));
+
+    const report = await runReconciliation({ trigger: 'cron' });
+
+    expect(mocks.stripe.subscriptions.retrieve).toHaveBeenCalledWith('sub_new');
+    const cancels = mocks.supabase.current!.queriesFor('subscriptions', 'update')
+      .filter(query => (query.payload as { status?: string }).status === 'canceled');
+    expect(cancels).toHaveLength(0);
+    expect(report).toMatchObject({ status: 'completed', discrepancyCount: 0 });
+  });
+
+  it('cancels a row whose Stripe subscription no longer exists', async () => {
+    setup({ unreached: [subscriptionRow('row_gone', 'sub_gone')] });
+    mocks.stripe.subscriptions.retrieve.mockRejectedValue(
+      new Stripe.errors.StripeInvalidRequestError({ type: 'invalid_request_error', code: 'resource_missing', message: 'No such subscription' })
+    );
+
+    const report = await runReconciliation({ trigger: 'cron' });
+
+    const [cancel] = mocks.supabase.current!.queriesFor('subscriptions', 'update')
+      .filter(query => (query.payload as { status?: string }).status === 'canceled');
+    expect(filterValue(cancel, 'eq', 'id')).toBe('row_gone');
+    expect(report?.discrepancies).toEqual([
+      expect.objectContaining({ type: 'orphaned_row', stripeSubscriptionId: 'sub_gone', fixed: true }),
+    ]);
+  });
+
+  it('only looks for orphans among rows created before the run started', async () => {
+    setup({});
+
+    await runReconciliation({ trigger: 'cron' });
+
+    const orphanQuery = mocks.supabase.current!.queries.find(isOrphanQuery)!;
+    expect(filterValue(orphanQuery, 'lt', 'created_at')).toBe(STARTED_AT);
+  });
+
+  it('upserts a missing row on stripe_subscription_id', async () => {
+    setup({ listed: [stripeSubscription('sub_1')] });
+
+    const report = await runReconciliation({ trigger: 'cron' });
+
+    const [write] = mocks.supabase.current!.queriesFor('subscriptions', 'upsert');
+    expect(write.payload).toMatchObject({ stripe_subscription_id: 'sub_1', user_id: 'user_1', stripe_customer_id: 'cus_1' });
+    expect(write.options).toEqual({ onConflict: 'stripe_subscription_id' });
+    expect(mocks.supabase.current!.queriesFor('subscriptions', 'insert')).toHaveLength(0);
+    expect(report?.discrepancies).toEqual([expect.objectContaining({ type: 'missing_row', fixed: true })]);
+  });
+
+  it('saves the Stripe cursor and continues from it on the next page', async () => {
+    setup({});
+    mocks.stripe.subscriptions.list
+      .mockResolvedValueOnce({ data: [stripeSubscription('sub_2')], has_more: true })
+      .mockResolvedValueOnce({ data: [stripeSubscription('sub_1')], has_more: false });
+
+    await runReconciliation({ trigger: 'cron' });
+
+    expect(mocks.stripe.subscriptions.list).toHaveBeenCalledTimes(2);
+    expect(mocks.stripe.subscriptions.list.mock.calls[0][0]).not.toHaveProperty('starting_after');
+    expect(mocks.stripe.subscriptions.list.mock.calls[1][0]).toMatchObject({ starting_after: 'sub_2' });
+    const progress = mocks.supabase.current!.queriesFor('reconciliation_reports', 'update')
+      .find(query => (query.payload as { stripe_cursor?: string }).stripe_cursor === 'sub_2');
+    expect(progress).toBeDefined();
+  });
+});
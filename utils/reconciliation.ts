@@ -0,0 +1,588 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { getPauseColumns } from '@/utils/subscription-pause';
+import { getMeteredItem, getPlanItem } from '@/utils/subscription-items';
+import { getSeatCount } from '@/utils/seats';
+import { findUserIdForCustomer, getStripeCustomerId, linkStripeCustomer } from '@/utils/stripe-customer';
+import type { Discrepancy, ReconciliationReport } from '@/types/ReconciliationTypes';
+
+// Stripe's list limit, also used for pages of our own rows
+const PAGE_SIZE = 100;
+
+// Each invocation stops after this long and leaves the rest of the run to
+// the next one, well inside serverless time limits
+const TIME_BUDGET_MS = 45 * 1000;
+
+// How long an invocation holds a run. Longer than the time budget plus one
+// page, so a crashed invocation frees the run for the next cron tick.
+const LEASE_MS = 2 * 60 * 1000;
+
+// The cron runs every few minutes to continue runs in progress, and starts
+// a new one on its first call after this hour each day
+const SCHEDULED_RUN_HOUR_UTC = 3;
+
+// A run still going after this long is given up on
+const STALLED_RUN_MS = 24 * 60 * 60 * 1000;
+
+const SUBSCRIPTION_COLUMNS =
+  'id, user_id, stripe_subscription_id, stripe_customer_id, status, price_id, current_period_end, cancel_at_period_end';
+
+type SubscriptionRow = {
+  id: string;
+  user_id: string;
+  stripe_subscription_id: string;
+  stripe_customer_id: string | null;
+  status: string;
+  price_id: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+};
+
+type ReconciliationRun = {
+  id: string;
+  dry_run: boolean;
+  status: ReconciliationReport['status'];
+  phase: 'subscriptions' | 'rows';
+  stripe_cursor: string | null;
+  row_cursor: string | null;
+  started_at: string;
+  finished_at: string | null;
+  subscriptions_checked: number;
+  customers_checked: number;
+  discrepancy_count: number;
+  fixed_count: number;
+  discrepancies: Discrepancy[];
+  error: string | null;
+};
+
+const RUN_COLUMNS =
+  'id, dry_run, status, phase, stripe_cursor, row_cursor, started_at, finished_at, subscriptions_checked, customers_checked, discrepancy_count, fixed_count, discrepancies, error';
+
+function productIdOf(price: Stripe.Price) {
+  return typeof price.product === 'string' ? price.product : price.product.id;
+}
+
+function customerIdOf(subscription: Stripe.Subscription) {
+  return typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+}
+
+function toISOString(timestamp: number) {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * The subscriptions row as Stripe sees it. Discounts and trials are left to
+ * the webhook, they need extra lookups per subscription.
+ */
+function getSubscriptionColumns(subscription: Stripe.Subscription, productName: string | null) {
+  const planItem = getPlanItem(subscription);
+
+  return {
+    stripe_customer_id: customerIdOf(subscription),
+    status: subscription.status,
+    price_id: planItem.price.id,
+    product_id: productIdOf(planItem.price),
+    product_name: productName,
+    seats: getSeatCount(subscription),
+    currency: subscription.currency,
+    stripe_metered_item_id: getMeteredItem(subscription)?.id ?? null,
+    ...getPauseColumns(subscription),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    current_period_start: toISOString(subscription.current_period_start),
+    current_period_end: toISOString(subscription.current_period_end),
+    updated_at: new Date().toISOString()
+  };
+}
+
+function compareSubscription(subscription: Stripe.Subscription, row: SubscriptionRow) {
+  const differences: Omit<Discrepancy, 'fixed'>[] = [];
+  const base = { stripeSubscriptionId: subscription.id, stripeCustomerId: customerIdOf(subscription) };
+
+  if (row.status !== subscription.status) {
+    differences.push({ ...base, type: 'status', expected: subscription.status, actual: row.status });
+  }
+
+  const periodEnd = subscription.current_period_end * 1000;
+  if (!row.current_period_end || new Date(row.current_period_end).getTime() !== periodEnd) {
+    differences.push({
+      ...base,
+      type: 'current_period_end',
+      expected: toISOString(subscription.current_period_end),
+      actual: row.current_period_end
+    });
+  }
+
+  if (row.cancel_at_period_end !== subscription.cancel_at_period_end) {
+    differences.push({
+      ...base,
+      type: 'cancel_at_period_end',
+      expected: subscription.cancel_at_period_end,
+      actual: row.cancel_at_period_end
+    });
+  }
+
+  const priceId = getPlanItem(subscription).price.id;
+  if (row.price_id !== priceId) {
+    differences.push({ ...base, type: 'price_id', expected: priceId, actual: row.price_id });
+  }
+
+  return differences;
+}
+
+// Customers linked on public.users, which wins over customer metadata
+async function loadLinkedCustomers(customerIds: string[]) {
+  const userIds = new Map<string, string>();
+  if (!customerIds.length) return userIds;
+
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id, stripe_customer_id')
+    .in('stripe_customer_id', customerIds);
+
+  if (error) throw error;
+  for (const user of data || []) userIds.set(user.stripe_customer_id, user.id);
+  return userIds;
+}
+
+async function loadProductNames() {
+  const products = await stripe.products.list({ limit: 100 }).autoPagingToArray({ limit: 10000 });
+  return new Map(products.map(product => [product.id, product.name]));
+}
+
+function productNameFor(subscription: Stripe.Subscription, productNames: Map<string, string>) {
+  return productNames.get(productIdOf(getPlanItem(subscription).price)) ?? null;
+}
+
+async function updateRow(subscription: Stripe.Subscription, productName: string | null) {
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update(getSubscriptionColumns(subscription, productName))
+    .eq('stripe_subscription_id', subscription.id);
+
+  if (error) throw error;
+}
+
+// Upserted on stripe_subscription_id, the webhook or checkout sync may have
+// written the row since we looked
+async function upsertRow(subscription: Stripe.Subscription, userId: string, productName: string | null) {
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .upsert({
+      ...getSubscriptionColumns(subscription, productName),
+      user_id: userId,
+      stripe_subscription_id: subscription.id,
+      created_at: toISOString(subscription.created),
+      reconciled_at: new Date().toISOString()
+    }, { onConflict: 'stripe_subscription_id' });
+
+  if (error) throw error;
+}
+
+/**
+ * Bring one subscription's row in line with Stripe, creating it if it's
+ * missing. Used by /api/stripe/sync after checkout.
+ */
+export async function syncSubscription(subscriptionId: string) {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const product = await stripe.products.retrieve(productIdOf(getPlanItem(subscription).price));
+
+  const { data: existing, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select('id')
+    .eq('stripe_subscription_id', subscriptionId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (existing) {
+    await updateRow(subscription, product.name);
+    return subscription;
+  }
+
+  const customerId = customerIdOf(subscription);
+  const userId = subscription.metadata.user_id || await findUserIdForCustomer(customerId);
+
+  if (!userId) {
+    throw new Error(`No user_id found for customer ${customerId}`);
+  }
+
+  await linkStripeCustomer(userId, customerId);
+  await upsertRow(subscription, userId, product.name);
+  return subscription;
+}
+
+/**
+ * Sync the user's latest Stripe subscription, e.g. straight after checkout
+ * before the webhook has landed.
+ */
+export async function syncUserSubscription(userId: string) {
+  const customerId = await getStripeCustomerId(userId);
+  if (!customerId) return null;
+
+  const { data: [latest] } = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 1 });
+  return latest ? syncSubscription(latest.id) : null;
+}
+
+function isMissingResource(error: unknown) {
+  return error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing';
+}
+
+function customerUserId(customer: Stripe.Subscription['customer']) {
+  if (typeof customer === 'string' || customer.deleted) return undefined;
+  return customer.metadata.user_id || undefined;
+}
+
+function errorDiscrepancy(stripeSubscriptionId: string, stripeCustomerId: string | null, error: unknown): Discrepancy {
+  return {
+    type: 'error',
+    stripeSubscriptionId,
+    stripeCustomerId,
+    actual: error instanceof Error ? error.message : 'Unknown error',
+    fixed: false
+  };
+}
+
+/**
+ * Check one page of Stripe subscriptions, newest first, against their rows
+ * and stamp `reconciled_at` on the rows it found.
+ */
+async function reconcileSubscriptionPage(run: ReconciliationRun, productNames: Map<string, string>) {
+  const page = await stripe.subscriptions.list({
+    status: 'all',
+    limit: PAGE_SIZE,
+    expand: ['data.customer'],
+    ...(run.stripe_cursor ? { starting_after: run.stripe_cursor } : {})
+  });
+
+  const subscriptions = page.data;
+  const customerIds = [...new Set(subscriptions.map(customerIdOf))];
+  const discrepancies: Discrepancy[] = [];
+  const reconciledRowIds: string[] = [];
+
+  const [{ data: rows, error }, linkedCustomers] = await Promise.all([
+    supabaseAdmin
+      .from('subscriptions')
+      .select(SUBSCRIPTION_COLUMNS)
+      .in('stripe_subscription_id', subscriptions.map(subscription => subscription.id)),
+    loadLinkedCustomers(customerIds)
+  ]);
+
+  if (error) throw error;
+  const rowsBySubscription = new Map((rows as SubscriptionRow[] | null || []).map(row => [row.stripe_subscription_id, row]));
+
+  for (const subscription of subscriptions) {
+    const row = rowsBySubscription.get(subscription.id);
+    const customerId = customerIdOf(subscription);
+    const productName = productNameFor(subscription, productNames);
+
+    try {
+      if (!row) {
+        // Long-canceled subscriptions that never got a row aren't worth recreating
+        if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') continue;
+
+        const userId = subscription.metadata.user_id || linkedCustomers.get(customerId) || customerUserId(subscription.customer);
+        const base = { stripeSubscriptionId: subscription.id, stripeCustomerId: customerId };
+
+        if (!userId) {
+          discrepancies.push({ ...base, type: 'unlinked_customer', fixed: false });
+          continue;
+        }
+
+        if (!run.dry_run) await upsertRow(subscription, userId, productName);
+        discrepancies.push({ ...base, type: 'missing_row', fixed: !run.dry_run });
+        continue;
+      }
+
+      reconciledRowIds.push(row.id);
+
+      const differences = compareSubscription(subscription, row);
+      if (!differences.length) continue;
+
+      if (!run.dry_run) await updateRow(subscription, productName);
+      discrepancies.push(...differences.map(difference => ({ ...difference, fixed: !run.dry_run })));
+    } catch (error) {
+      console.error('Error reconciling subscription:', subscription.id, error);
+      discrepancies.push(errorDiscrepancy(subscription.id, customerId, error));
+    }
+  }
+
+  // Bookkeeping for the orphan pass rather than a fix, so dry runs write it too
+  if (reconciledRowIds.length) {
+    const { error: stampError } = await supabaseAdmin
+      .from('subscriptions')
+      .update({ reconciled_at: new Date().toISOString() })
+      .in('id', reconciledRowIds);
+
+    if (stampError) throw stampError;
+  }
+
+  return {
+    discrepancies,
+    subscriptionsChecked: subscriptions.length,
+    customersChecked: customerIds.length,
+    cursor: page.has_more ? subscriptions[subscriptions.length - 1].id : null
+  };
+}
+
+/**
+ * Check one page of the live rows that the Stripe pass didn't reach. Rows
+ * created after the run started are left for the next run, and every row is
+ * looked up in Stripe before it's canceled: its subscription may have been
+ * created after the listing went past it.
+ */
+async function reconcileRowPage(run: ReconciliationRun, productNames: Map<string, string>) {
+  let query = supabaseAdmin
+    .from('subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .not('stripe_subscription_id', 'is', null)
+    .neq('status', 'canceled')
+    .lt('created_at', run.started_at)
+    .or(`reconciled_at.is.null,reconciled_at.lt.${run.started_at}`)
+    .order('id', { ascending: true })
+    .limit(PAGE_SIZE);
+
+  if (run.row_cursor) {
+    query = query.gt('id', run.row_cursor);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data || []) as SubscriptionRow[];
+  const discrepancies: Discrepancy[] = [];
+
+  for (const row of rows) {
+    try {
+      const subscription = await stripe.subscriptions.retrieve(row.stripe_subscription_id).catch(error => {
+        if (isMissingResource(error)) return null;
+        throw error;
+      });
+
+      if (subscription) {
+        const differences = compareSubscription(subscription, row);
+        if (differences.length && !run.dry_run) {
+          await updateRow(subscription, productNameFor(subscription, productNames));
+        }
+        discrepancies.push(...differences.map(difference => ({ ...difference, fixed: !run.dry_run })));
+        continue;
+      }
+
+      let fixed = false;
+      if (!run.dry_run) {
+        const { error: cancelError } = await supabaseAdmin
+          .from('subscriptions')
+          .update({ status: 'canceled', updated_at: new Date().toISOString() })
+          .eq('id', row.id);
+
+        if (cancelError) {
+          console.error('Error canceling orphaned subscription row:', row.id, cancelError);
+        }
+        fixed = !cancelError;
+      }
+
+      discrepancies.push({
+        type: 'orphaned_row',
+        stripeSubscriptionId: row.stripe_subscription_id,
+        stripeCustomerId: row.stripe_customer_id,
+        expected: 'canceled',
+        actual: row.status,
+        fixed
+      });
+    } catch (error) {
+      console.error('Error reconciling subscription row:', row.id, error);
+      discrepancies.push(errorDiscrepancy(row.stripe_subscription_id, row.stripe_customer_id, error));
+    }
+  }
+
+  return { discrepancies, cursor: rows.length === PAGE_SIZE ? rows[rows.length - 1].id : null };
+}
+
+function toReport(run: ReconciliationRun): ReconciliationReport {
+  return {
+    id: run.id,
+    status: run.status,
+    dryRun: run.dry_run,
+    startedAt: run.started_at,
+    finishedAt: run.finished_at,
+    subscriptionsChecked: run.subscriptions_checked,
+    customersChecked: run.customers_checked,
+    discrepancyCount: run.discrepancy_count,
+    fixedCount: run.fixed_count,
+    discrepancies: run.discrepancies
+  };
+}
+
+function withDiscrepancies(run: ReconciliationRun, discrepancies: Discrepancy[]) {
+  return {
+    discrepancies: [...run.discrepancies, ...discrepancies],
+    discrepancy_count: run.discrepancy_count + discrepancies.length,
+    fixed_count: run.fixed_count + discrepancies.filter(discrepancy => discrepancy.fixed).length
+  };
+}
+
+async function findRunningRun() {
+  const { data, error } = await supabaseAdmin
+    .from('reconciliation_reports')
+    .select(RUN_COLUMNS)
+    .eq('status', 'running')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ReconciliationRun | null;
+}
+
+async function startRun(trigger: 'cron' | 'admin', triggeredBy: string | null, dryRun: boolean) {
+  const { data, error } = await supabaseAdmin
+    .from('reconciliation_reports')
+    .insert({
+      trigger,
+      triggered_by: triggeredBy,
+      dry_run: dryRun,
+      status: 'running',
+      phase: 'subscriptions',
+      started_at: new Date().toISOString()
+    })
+    .select(RUN_COLUMNS)
+    .single();
+
+  // Only one run can be in progress, someone else just started it
+  if (error?.code === '23505') {
+    const running = await findRunningRun();
+    if (running) return running;
+  }
+
+  if (error) throw error;
+  return data as ReconciliationRun;
+}
+
+// Take the run's lease, or null while another invocation holds it
+async function claimRun(runId: string) {
+  const now = new Date();
+  const { data, error } = await supabaseAdmin
+    .from('reconciliation_reports')
+    .update({ locked_until: new Date(now.getTime() + LEASE_MS).toISOString() })
+    .eq('id', runId)
+    .eq('status', 'running')
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select(RUN_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ReconciliationRun | null;
+}
+
+async function saveRun(run: ReconciliationRun, changes: Partial<ReconciliationRun> & { locked_until?: string | null }) {
+  const { error } = await supabaseAdmin
+    .from('reconciliation_reports')
+    .update(changes)
+    .eq('id', run.id);
+
+  if (error) throw error;
+  return { ...run, ...changes };
+}
+
+/**
+ * Work through a run a page at a time until it's done or the time budget is
+ * spent. Progress is saved after every page, so the next invocation carries
+ * on from the last one even if this one is cut short.
+ */
+async function processRun(runId: string) {
+  let run = await claimRun(runId);
+  if (!run) return null;
+
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
+  try {
+    const productNames = await loadProductNames();
+
+    while (run.status === 'running' && Date.now() < deadline) {
+      if (run.phase === 'subscriptions') {
+        const page = await reconcileSubscriptionPage(run, productNames);
+        run = await saveRun(run, {
+          ...withDiscrepancies(run, page.discrepancies),
+          subscriptions_checked: run.subscriptions_checked + page.subscriptionsChecked,
+          customers_checked: run.customers_checked + page.customersChecked,
+          stripe_cursor: page.cursor,
+          phase: page.cursor ? 'subscriptions' : 'rows'
+        });
+      } else {
+        const page = await reconcileRowPage(run, productNames);
+        run = await saveRun(run, {
+          ...withDiscrepancies(run, page.discrepancies),
+          row_cursor: page.cursor,
+          ...(page.cursor ? {} : { status: 'completed' as const, finished_at: new Date().toISOString() })
+        });
+      }
+    }
+  } catch (error) {
+    // The run stays in progress and the next invocation retries the page
+    await saveRun(run, { error: error instanceof Error ? error.message : 'Unknown error', locked_until: null })
+      .catch(saveError => console.error('Error saving reconciliation progress:', saveError));
+    throw error;
+  }
+
+  return toReport(await saveRun(run, { locked_until: null }));
+}
+
+/**
+ * Compare Stripe subscriptions with the subscriptions table and fix any
+ * drift, continuing the run in progress or starting a new one. Each call
+ * works for up to TIME_BUDGET_MS, so a large account takes several calls;
+ * the cron picks up whatever an admin run leaves. With `dryRun` nothing is
+ * written except the report and `reconciled_at`.
+ *
+ * Returns the report so far, or null if another call is working on the run.
+ */
+export async function runReconciliation({
+  trigger,
+  triggeredBy = null,
+  dryRun = false
+}: {
+  trigger: 'cron' | 'admin';
+  triggeredBy?: string | null;
+  dryRun?: boolean;
+}): Promise<ReconciliationReport | null> {
+  const run = await findRunningRun() ?? await startRun(trigger, triggeredBy, dryRun);
+  return processRun(run.id);
+}
+
+function lastScheduledStart(now: Date) {
+  const start = new Date(now);
+  start.setUTCHours(SCHEDULED_RUN_HOUR_UTC, 0, 0, 0);
+  if (start > now) start.setUTCDate(start.getUTCDate() - 1);
+  return start;
+}
+
+/**
+ * The cron's entry point: continues the run in progress, and starts a new
+ * one on the first call after SCHEDULED_RUN_HOUR_UTC each day. Returns null
+ * when there's nothing to do.
+ */
+export async function runScheduledReconciliation() {
+  const now = new Date();
+  const running = await findRunningRun();
+
+  if (running) {
+    if (now.getTime() - new Date(running.started_at).getTime() < STALLED_RUN_MS) {
+      return processRun(running.id);
+    }
+
+    // Still going after a day, e.g. stuck on a page that keeps failing
+    await saveRun(running, { status: 'failed', finished_at: now.toISOString(), locked_until: null });
+  }
+
+  const { data: latest, error } = await supabaseAdmin
+    .from('reconciliation_reports')
+    .select('started_at')
+    .eq('trigger', 'cron')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (latest && new Date(latest.started_at) >= lastScheduledStart(now)) return null;
+
+  return runReconciliation({ trigger: 'cron' });
+}
@@ -0,0 +1,74 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { getPlanItem } from '@/utils/subscription-items';
+import { getAutomaticTaxParams } from '@/utils/tax';
+
+export const MAX_SEATS = 100;
+
+export interface SeatUsage {
+  seats: number;
+  used: number; // Team members plus the owner
+}
+
+export function getSeatCount(subscription: Stripe.Subscription) {
+  return getPlanItem(subscription)?.quantity ?? 1;
+}
+
+export async function getSeatUsage(subscriptionRowId: string, seats: number): Promise<SeatUsage> {
+  const { count, error } = await supabaseAdmin
+    .from('team_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('subscription_id', subscriptionRowId);
+
+  if (error) throw error;
+  return { seats, used: (count ?? 0) + 1 };
+}
+
+/**
+ * Change the seat quantity. Stripe prorates the difference onto the next
+ * invoice, the webhook keeps `subscriptions.seats` in sync afterwards.
+ */
+export async function updateSeatCount(subscription: Stripe.Subscription, seats: number) {
+  const subscriptionId = subscription.id;
+  const item = getPlanItem(subscription);
+
+  const updated = await stripe.subscriptions.update(subscriptionId, {
+    items: [{ id: item.id, quantity: seats }],
+    proration_behavior: 'create_prorations',
+    ...(await getAutomaticTaxParams(subscription)),
+  });
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      seats: getSeatCount(updated),
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscriptionId);
+
+  if (error) {
+    console.error('Error storing seat count:', error);
+    throw error;
+  }
+
+  return updated;
+}
+
+/**
+ * The subscription whose seats the user manages, i.e. the latest one they
+ * own that still grants access.
+ */
+export async function getOwnedTeamSubscription(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['active', 'trialing', 'past_due'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
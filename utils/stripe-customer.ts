@@ -0,0 +1,130 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import type { BillingClients } from '@/utils/clients';
+
+/**
+ * The Stripe customer linked to a user, or null if they don't have one yet.
+ * Users from before customers were linked at signup fall back to their
+ * billing profile or latest subscription, and get linked on the way. All
+ * three columns are written by the service role only, never by the user.
+ */
+export async function getStripeCustomerId(userId: string): Promise<string | null> {
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('stripe_customer_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (user?.stripe_customer_id) return user.stripe_customer_id;
+
+  const { data: profile } = await supabaseAdmin
+    .from('billing_profiles')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  let customerId: string | null = profile?.stripe_customer_id ?? null;
+
+  if (!customerId) {
+    const { data: subscription, error: subError } = await supabaseAdmin
+      .from('subscriptions')
+      .select('stripe_customer_id')
+      .eq('user_id', userId)
+      .not('stripe_customer_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (subError) throw subError;
+    customerId = subscription?.stripe_customer_id ?? null;
+  }
+
+  return customerId ? linkStripeCustomer(userId, customerId) : null;
+}
+
+/**
+ * Store the customer on the user and tag it with their user_id. A user keeps
+ * the first customer linked to them, so the ID returned may differ from the
+ * one passed in when two requests race.
+ */
+export async function linkStripeCustomer(
+  userId: string,
+  customerId: string,
+  clients: BillingClients = { stripe, supabase: supabaseAdmin }
+): Promise<string> {
+  const { data, error } = await clients.supabase
+    .from('users')
+    .update({ stripe_customer_id: customerId, updated_at: new Date().toISOString() })
+    .eq('id', userId)
+    .is('stripe_customer_id', null)
+    .select('stripe_customer_id');
+
+  if (error) throw error;
+
+  if (!data?.length) {
+    const { data: user, error: userError } = await clients.supabase
+      .from('users')
+      .select('stripe_customer_id')
+      .eq('id', userId)
+      .single();
+
+    if (userError) throw userError;
+    if (user.stripe_customer_id && user.stripe_customer_id !== customerId) {
+      console.warn('User already has a different Stripe customer:', { userId, customerId, linked: user.stripe_customer_id });
+      return user.stripe_customer_id;
+    }
+  }
+
+  // Customers created by payment links or the dashboard come without our metadata
+  const customer = await clients.stripe.customers.retrieve(customerId);
+  if (!customer.deleted && customer.metadata.user_id !== userId) {
+    await clients.stripe.customers.update(customerId, { metadata: { user_id: userId } });
+  }
+
+  return customerId;
+}
+
+/**
+ * Find or create the user's Stripe customer. Safe to call on every sign in
+ * and checkout: an existing customer tagged with the user's ID is reused, and
+ * creation is idempotent per user.
+ */
+export async function getOrCreateStripeCustomer(user: { id: string; email?: string | null }): Promise<string> {
+  const existingId = await getStripeCustomerId(user.id);
+  if (existingId) return existingId;
+
+  // Search is eventually consistent, the idempotency key covers anything it misses
+  const { data: [found] } = await stripe.customers.search({
+    query: `metadata['user_id']:'${user.id}'`,
+    limit: 1,
+  });
+
+  const customer: Stripe.Customer = found ?? await stripe.customers.create(
+    {
+      email: user.email ?? undefined,
+      metadata: { user_id: user.id },
+    },
+    { idempotencyKey: `customer-${user.id}` }
+  );
+
+  return linkStripeCustomer(user.id, customer.id);
+}
+
+/**
+ * The user a Stripe customer belongs to, from our link or the customer's metadata.
+ */
+export async function findUserIdForCustomer(customerId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data.id;
+
+  const customer = await stripe.customers.retrieve(customerId);
+  return customer.deleted ? null : customer.metadata.user_id || null;
+}
@@ -0,0 +1,77 @@
+import Stripe from 'stripe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, type RecordedQuery } from '@/test/supabase-mock';
+
+const mocks = vi.hoisted(() => ({
+  handleStripeEvent: vi.fn(),
+  supabase: { current: null as ReturnType<typeof createSupabaseMock> | null },
+}));
+
+vi.mock('@/utils/stripe-webhook', () => ({
+  handleStripeEvent: mocks.handleStripeEvent,
+  logWebhookEvent: vi.fn(),
+}));
+vi.mock('@/utils/supabase-admin', () => ({
+  get supabaseAdmin() {
+    return mocks.supabase.current!.supabase;
+  },
+}));
+
+import { processStripeEvent, type StoredStripeEvent } from './stripe-events';
+
+const stored: StoredStripeEvent = {
+  id: 'evt_1',
+  type: 'invoice.paid',
+  payload: { id: 'evt_1', type: 'invoice.paid' } as Stripe.Event,
+  status: 'received',
+  attempts: 0,
+  last_error: null,
+  stripe_created_at: '2025-10-20T00:00:00.000Z',
+  received_at: '2025-10-20T00:00:00.000Z',
+  processed_at: null,
+  processing_started_at: null,
+};
+
+const writeError = { code: '57014', message: 'canceling statement due to statement timeout' };
+
+// The claim succeeds; the outcome write for `status` fails
+function failOutcomeWrite(status: 'processed' | 'failed') {
+  return (query: RecordedQuery) => {
+    const payload = query.payload as { status?: string } | undefined;
+    if (query.operation !== 'update') return undefined;
+    if (payload?.status === 'processing') return { data: { id: stored.id } };
+    if (payload?.status === status) return { error: writeError };
+    return undefined;
+  };
+}
+
+describe('processStripeEvent', () => {
+  beforeEach(() => {
+    mocks.handleStripeEvent.mockReset();
+  });
+
+  it('marks a handled event processed', async () => {
+    mocks.supabase.current = createSupabaseMock(failOutcomeWrite('failed'));
+    mocks.handleStripeEvent.mockResolvedValue({ status: 'handled' });
+
+    const result = await processStripeEvent(stored);
+
+    expect(result.status).toBe('processed');
+    const writes = mocks.supabase.current.queriesFor('stripe_events', 'update');
+    expect(writes.at(-1)?.payload).toMatchObject({ status: 'processed', last_error: null });
+  });
+
+  it('throws when the processed status cannot be written', async () => {
+    mocks.supabase.current = createSupabaseMock(failOutcomeWrite('processed'));
+    mocks.handleStripeEvent.mockResolvedValue({ status: 'handled' });
+
+    await expect(processStripeEvent(stored)).rejects.toEqual(writeError);
+  });
+
+  it('throws when the failed status cannot be written', async () => {
+    mocks.supabase.current = createSupabaseMock(failOutcomeWrite('failed'));
+    mocks.handleStripeEvent.mockRejectedValue(new Error('handler exploded'));
+
+    await expect(processStripeEvent(stored)).rejects.toEqual(writeError);
+  });
+});
@@ -0,0 +1,196 @@
+import Stripe from 'stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { handleStripeEvent, logWebhookEvent, WebhookResult } from '@/utils/stripe-webhook';
+
+export type StripeEventStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+export interface StoredStripeEvent {
+  id: string;
+  type: string;
+  payload: Stripe.Event;
+  status: StripeEventStatus;
+  attempts: number;
+  last_error: string | null;
+  stripe_created_at: string;
+  received_at: string;
+  processed_at: string | null;
+  processing_started_at: string | null;
+}
+
+export interface ProcessEventResult {
+  eventId: string;
+  type: string;
+  // in_progress: another attempt holds the event, the caller should retry later
+  status: 'processed' | 'failed' | 'skipped' | 'in_progress';
+  result?: WebhookResult;
+  error?: string;
+}
+
+// Upper bound on a single range replay so one request can't walk the whole table
+const MAX_REPLAY_EVENTS = 500;
+
+// An attempt still `processing` after this long is assumed dead (crash or function timeout)
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Persist a verified event. Duplicate deliveries return the row that is already stored.
+ */
+export async function recordStripeEvent(event: Stripe.Event): Promise<StoredStripeEvent> {
+  const { data, error } = await supabaseAdmin
+    .from('stripe_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      status: 'received',
+      stripe_created_at: new Date(event.created * 1000).toISOString()
+    })
+    .select()
+    .single();
+
+  if (!error) return data as StoredStripeEvent;
+
+  // 23505 = unique violation, we've seen this event before
+  if (error.code !== '23505') throw error;
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('stripe_events')
+    .select('*')
+    .eq('id', event.id)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return existing as StoredStripeEvent;
+}
+
+/**
+ * Claim a stored event and run it through the webhook handlers. Processed
+ * events, and events another attempt started recently, are skipped unless
+ * `force` is set.
+ */
+export async function processStripeEvent(
+  stored: StoredStripeEvent,
+  { force = false }: { force?: boolean } = {}
+): Promise<ProcessEventResult> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - PROCESSING_TIMEOUT_MS).toISOString();
+
+  let claim = supabaseAdmin
+    .from('stripe_events')
+    .update({
+      status: 'processing',
+      attempts: stored.attempts + 1,
+      processing_started_at: now.toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', stored.id);
+
+  if (!force) {
+    claim = claim.or(
+      `status.in.(received,failed),and(status.eq.processing,or(processing_started_at.is.null,processing_started_at.lt.${staleBefore}))`
+    );
+  }
+
+  const { data: claimed, error: claimError } = await claim
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    logWebhookEvent(`Skipping ${stored.status} event`, { eventId: stored.id, type: stored.type });
+    return {
+      eventId: stored.id,
+      type: stored.type,
+      status: stored.status === 'processing' ? 'in_progress' : 'skipped'
+    };
+  }
+
+  let result: WebhookResult;
+  try {
+    result = await handleStripeEvent(stored.payload);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    logWebhookEvent(`Failed to process event ${stored.id}`, error);
+
+    await markStripeEvent(stored.id, { status: 'failed', last_error: message });
+
+    return { eventId: stored.id, type: stored.type, status: 'failed', error: message };
+  }
+
+  await markStripeEvent(stored.id, {
+    status: 'processed',
+    last_error: null,
+    processed_at: new Date().toISOString()
+  });
+
+  return { eventId: stored.id, type: stored.type, status: 'processed', result };
+}
+
+/**
+ * Record the outcome of an attempt. A failed write throws so the caller answers
+ * non-2xx; the event stays `processing` and is reclaimed once the claim goes stale.
+ */
+async function markStripeEvent(
+  eventId: string,
+  outcome: { status: 'processed' | 'failed'; last_error: string | null; processed_at?: string }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('stripe_events')
+    .update({ ...outcome, updated_at: new Date().toISOString() })
+    .eq('id', eventId);
+
+  if (error) {
+    logWebhookEvent(`Failed to mark event ${eventId} as ${outcome.status}`, error);
+    throw error;
+  }
+}
+
+/**
+ * Re-run a single stored event, regardless of its current status.
+ */
+export async function replayStripeEvent(eventId: string): Promise<ProcessEventResult | null> {
+  const { data, error } = await supabaseAdmin
+    .from('stripe_events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return processStripeEvent(data as StoredStripeEvent, { force: true });
+}
+
+/**
+ * Re-run every stored event created by Stripe within [from, to], oldest first.
+ * Only failed and unprocessed events are replayed unless other statuses are given.
+ */
+export async function replayStripeEvents({
+  from,
+  to,
+  statuses = ['received', 'failed']
+}: {
+  from: Date;
+  to: Date;
+  statuses?: StripeEventStatus[];
+}): Promise<ProcessEventResult[]> {
+  const { data, error } = await supabaseAdmin
+    .from('stripe_events')
+    .select('*')
+    .gte('stripe_created_at', from.toISOString())
+    .lte('stripe_created_at', to.toISOString())
+    .in('status', statuses)
+    .order('stripe_created_at', { ascending: true })
+    .limit(MAX_REPLAY_EVENTS);
+
+  if (error) throw error;
+
+  // Sequential on purpose: handlers for the same subscription depend on ordering
+  const results: ProcessEventResult[] = [];
+  for (const stored of (data || []) as StoredStripeEvent[]) {
+    results.push(await processStripeEvent(stored, { force: true }));
+  }
+
+  return results;
+}
@@ -0,0 +1,14 @@
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { invalidatePlanCatalog } from '@/utils/plan-catalog';
+import type { WebhookContext } from './types';
+
+// Helper function for consistent logging
+export function logWebhookEvent(message: string, data?: unknown) {
+  const timestamp = new Date().toISOString();
+  console.log(`[${timestamp}] WEBHOOK: ${message}`, data ? JSON.stringify(data, null, 2) : '');
+}
+
+export function createWebhookContext(): WebhookContext {
+  return { stripe, supabase: supabaseAdmin, log: logWebhookEvent, invalidatePlanCatalog };
+}
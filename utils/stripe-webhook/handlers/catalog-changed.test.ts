@@ -0,0 +1,19 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCatalogChanged } from './catalog-changed';
+
+describe('handleCatalogChanged', () => {
+  it('drops the cached plan catalog', async () => {
+    const { context } = createWebhookTestContext();
+
+    await handleCatalogChanged(loadStripeEvent('product.updated'), context);
+
+    expect(context.invalidatePlanCatalog).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,12 @@
+import type { WebhookHandler } from '../types';
+
+export const handleCatalogChanged: WebhookHandler<
+  | 'product.created'
+  | 'product.updated'
+  | 'product.deleted'
+  | 'price.created'
+  | 'price.updated'
+  | 'price.deleted'
+> = async (event, { invalidatePlanCatalog }) => {
+  invalidatePlanCatalog();
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleChargeRefunded } from './charge-refunded';
+
+describe('handleChargeRefunded', () => {
+  it('stores the refunded amount on the invoice', async () => {
+    const { context, supabase } = createWebhookTestContext();
+
+    await handleChargeRefunded(loadStripeEvent('charge.refunded'), context);
+
+    const [write] = supabase.queriesFor('invoices', 'update');
+    expect(write.payload).toMatchObject({ amount_refunded: 1100 });
+    expect(filterValue(write, 'eq', 'stripe_invoice_id')).toBe('in_1QTeam0001');
+  });
+
+  it('ignores charges that aren\'t for an invoice', async () => {
+    const { context, supabase } = createWebhookTestContext();
+    const event = loadStripeEvent('charge.refunded');
+    event.data.object.invoice = null;
+
+    await handleChargeRefunded(event, context);
+
+    expect(supabase.queries).toHaveLength(0);
+  });
+
+  it('fails the event when the refund cannot be stored', async () => {
+    const { context } = createWebhookTestContext(() => ({ error: { message: 'connection refused' } }));
+
+    await expect(handleChargeRefunded(loadStripeEvent('charge.refunded'), context)).rejects.toEqual({ message: 'connection refused' });
+  });
+});
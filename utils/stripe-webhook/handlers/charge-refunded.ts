@@ -0,0 +1,23 @@
+import { getId } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleChargeRefunded: WebhookHandler<'charge.refunded'> = async (event, { supabase, log }) => {
+  const charge = event.data.object;
+  const invoiceId = getId(charge.invoice);
+
+  // Charges outside of invoices, e.g. one-off payments, have nothing to update
+  if (!invoiceId) return;
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({
+      amount_refunded: charge.amount_refunded,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_invoice_id', invoiceId);
+
+  if (error) {
+    log('Error storing refund', error);
+    throw error;
+  }
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue, type RecordedQuery } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCheckoutSessionCompleted } from './checkout-session-completed';
+
+const USER_ID = '3f0c1a52-7d7e-4a55-9d2b-1c2f6b0e8a11';
+
+function setup({ hasActiveSubscription = false, upsertError = null as unknown } = {}) {
+  const test = createWebhookTestContext((query: RecordedQuery) => {
+    if (query.table === 'subscriptions' && query.operation === 'select') {
+      return { data: hasActiveSubscription ? [{ id: 'row_existing' }] : [] };
+    }
+    if (query.table === 'users' && query.operation === 'update') return { data: [{ stripe_customer_id: 'cus_RTeam0001' }] };
+    if (query.table === 'subscriptions' && query.operation === 'upsert') {
+      return upsertError ? { error: upsertError } : { data: { id: 'row_1' } };
+    }
+    return undefined;
+  });
+
+  test.stripe.subscriptions.retrieve.mockResolvedValue(loadStripeEvent('customer.subscription.created').data.object);
+  test.stripe.products.retrieve.mockResolvedValue({ id: 'prod_RBasic', name: 'Basic' });
+  test.stripe.customers.retrieve.mockResolvedValue(loadStripeEvent('customer.updated').data.object);
+  return test;
+}
+
+describe('handleCheckoutSessionCompleted', () => {
+  it('links the customer and stores the subscription for the user', async () => {
+    const { context, stripe, supabase } = setup();
+
+    await handleCheckoutSessionCompleted(loadStripeEvent('checkout.session.completed'), context);
+
+    const [link] = supabase.queriesFor('users', 'update');
+    expect(link.payload).toMatchObject({ stripe_customer_id: 'cus_RTeam0001' });
+    expect(filterValue(link, 'eq', 'id')).toBe(USER_ID);
+    // Already tagged with the user, nothing to update in Stripe
+    expect(stripe.customers.update).not.toHaveBeenCalled();
+
+    const [write] = supabase.queriesFor('subscriptions', 'upsert');
+    expect(write.payload).toMatchObject({
+      user_id: USER_ID,
+      stripe_customer_id: 'cus_RTeam0001',
+      stripe_subscription_id: 'sub_1QTeam0001',
+      status: 'active',
+      price_id: 'price_1QBasicMonthly',
+      product_name: 'Basic',
+      seats: 3,
+    });
+    expect(write.options).toEqual({ onConflict: 'stripe_subscription_id' });
+
+    const [preferences] = supabase.queriesFor('user_preferences', 'upsert');
+    expect(preferences.payload).toMatchObject({ user_id: USER_ID, has_completed_onboarding: true });
+  });
+
+  it('cancels the new subscription when the customer already has an active one', async () => {
+    const { context, stripe, supabase } = setup({ hasActiveSubscription: true });
+
+    const result = await handleCheckoutSessionCompleted(loadStripeEvent('checkout.session.completed'), context);
+
+    expect(result).toEqual({ status: 'blocked', message: 'Customer already has an active subscription' });
+    expect(stripe.subscriptions.cancel).toHaveBeenCalledWith('sub_1QTeam0001');
+    expect(supabase.queriesFor('subscriptions', 'upsert')).toHaveLength(0);
+
+    // The subscription it created itself doesn't count as the existing one
+    const [existing] = supabase.queriesFor('subscriptions', 'select');
+    expect(filterValue(existing, 'neq', 'stripe_subscription_id')).toBe('sub_1QTeam0001');
+  });
+
+  it('fails the event when the subscription cannot be stored', async () => {
+    const { context } = setup({ upsertError: { message: 'connection reset' } });
+
+    await expect(handleCheckoutSessionCompleted(loadStripeEvent('checkout.session.completed'), context))
+      .rejects.toEqual({ message: 'connection reset' });
+  });
+
+  it('rejects a session without a user reference', async () => {
+    const { context } = setup();
+    const event = loadStripeEvent('checkout.session.completed');
+    event.data.object.client_reference_id = null;
+
+    await expect(handleCheckoutSessionCompleted(event, context)).rejects.toThrow('Invalid session data');
+  });
+});
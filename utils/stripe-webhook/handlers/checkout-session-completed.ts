@@ -0,0 +1,68 @@
+import { linkStripeCustomer } from '@/utils/stripe-customer';
+import { checkExistingSubscription, createSubscription } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleCheckoutSessionCompleted: WebhookHandler<'checkout.session.completed'> = async (event, context) => {
+  const { stripe, log } = context;
+  const session = event.data.object;
+
+  // Check for existing active subscription
+  const hasActiveSubscription = await checkExistingSubscription(
+    context,
+    session.customer as string,
+    session.subscription as string | undefined
+  );
+
+  if (hasActiveSubscription) {
+    log('Duplicate subscription attempt blocked', {
+      customerId: session.customer,
+      sessionId: session.id
+    });
+
+    // Cancel the new subscription immediately
+    if (session.subscription) {
+      await stripe.subscriptions.cancel(session.subscription as string);
+    }
+
+    return {
+      status: 'blocked',
+      message: 'Customer already has an active subscription'
+    };
+  }
+
+  log('Processing checkout.session.completed', {
+    sessionId: session.id,
+    clientReferenceId: session.client_reference_id,
+    customerId: session.customer,
+    subscriptionId: session.subscription
+  });
+
+  if (!session.client_reference_id || !session.customer || !session.subscription) {
+    log('Missing required session data', {
+      clientReferenceId: session.client_reference_id,
+      customerId: session.customer,
+      subscriptionId: session.subscription
+    });
+    throw new Error('Invalid session data');
+  }
+
+  // Payment links create their own customer, make sure it ends up linked to the user
+  try {
+    await linkStripeCustomer(session.client_reference_id, session.customer as string, context);
+  } catch (error) {
+    log('Failed to link Stripe customer', error);
+  }
+
+  try {
+    const subscription = await createSubscription(
+      context,
+      session.subscription as string,
+      session.client_reference_id,
+      session.customer as string
+    );
+    log('Successfully created subscription', subscription);
+  } catch (error) {
+    log('Failed to create subscription', error);
+    throw error;
+  }
+};
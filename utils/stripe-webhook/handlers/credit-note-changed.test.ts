@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCreditNoteChanged } from './credit-note-changed';
+
+describe('handleCreditNoteChanged', () => {
+  it('refreshes the credited invoice from Stripe', async () => {
+    const { context, stripe, supabase } = createWebhookTestContext();
+    const invoice = { ...loadStripeEvent('invoice.paid').data.object, post_payment_credit_notes_amount: 1100 };
+    stripe.invoices.retrieve.mockResolvedValue(invoice);
+    stripe.taxRates.retrieve.mockResolvedValue({ display_name: 'Sales Tax', percentage: 10, effective_percentage: 10 });
+
+    await handleCreditNoteChanged(loadStripeEvent('credit_note.created'), context);
+
+    expect(stripe.invoices.retrieve).toHaveBeenCalledWith('in_1QTeam0001');
+    const [write] = supabase.queriesFor('invoices', 'upsert');
+    expect(write.payload).toMatchObject({ stripe_invoice_id: 'in_1QTeam0001', amount_credited: 1100 });
+  });
+});
@@ -0,0 +1,18 @@
+import { getId, upsertInvoice } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleCreditNoteChanged: WebhookHandler<'credit_note.created' | 'credit_note.voided'> = async (event, context) => {
+  const creditNote = event.data.object;
+  const invoiceId = getId(creditNote.invoice);
+
+  // The invoice carries the credited totals
+  if (invoiceId) {
+    await upsertInvoice(context, await context.stripe.invoices.retrieve(invoiceId));
+  }
+  context.log('Credit note changed', {
+    type: event.type,
+    creditNoteId: creditNote.id,
+    invoiceId,
+    amount: creditNote.amount
+  });
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCustomerSubscriptionCreated } from './customer-subscription-created';
+
+describe('handleCustomerSubscriptionCreated', () => {
+  it('stores the subscription when its checkout has already been recorded', async () => {
+    const checkout = loadStripeEvent('checkout.session.completed');
+    const { context, stripe, supabase } = createWebhookTestContext(query => {
+      if (query.table === 'stripe_events') return { data: { payload: checkout } };
+      if (query.table === 'subscriptions' && query.operation === 'upsert') return { data: { id: 'row_1' } };
+      return undefined;
+    });
+    const event = loadStripeEvent('customer.subscription.created');
+    stripe.subscriptions.retrieve.mockResolvedValue(event.data.object);
+    stripe.products.retrieve.mockResolvedValue({ id: 'prod_RBasic', name: 'Basic' });
+
+    await handleCustomerSubscriptionCreated(event, context);
+
+    const [lookup] = supabase.queriesFor('stripe_events', 'select');
+    expect(filterValue(lookup, 'eq', 'payload->data->object->>subscription')).toBe('sub_1QTeam0001');
+
+    const [write] = supabase.queriesFor('subscriptions', 'upsert');
+    expect(write.payload).toMatchObject({
+      user_id: checkout.data.object.client_reference_id,
+      stripe_customer_id: 'cus_RTeam0001',
+      stripe_subscription_id: 'sub_1QTeam0001',
+    });
+  });
+
+  it('leaves the subscription to checkout.session.completed when that hasn\'t arrived yet', async () => {
+    const { context, stripe, supabase } = createWebhookTestContext();
+
+    await handleCustomerSubscriptionCreated(loadStripeEvent('customer.subscription.created'), context);
+
+    expect(stripe.subscriptions.retrieve).not.toHaveBeenCalled();
+    expect(supabase.queriesFor('subscriptions')).toHaveLength(0);
+  });
+});
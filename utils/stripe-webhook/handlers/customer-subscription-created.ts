@@ -0,0 +1,18 @@
+import { createSubscription, findCheckoutSessionForSubscription } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleCustomerSubscriptionCreated: WebhookHandler<'customer.subscription.created'> = async (event, context) => {
+  const subscription = event.data.object;
+
+  // If the checkout arrived first we can create the subscription now,
+  // otherwise checkout.session.completed will create it when it lands
+  const session = await findCheckoutSessionForSubscription(context, subscription.id);
+  if (session?.client_reference_id) {
+    await createSubscription(
+      context,
+      subscription.id,
+      session.client_reference_id,
+      subscription.customer as string
+    );
+  }
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCustomerSubscriptionDeleted } from './customer-subscription-deleted';
+
+describe('handleCustomerSubscriptionDeleted', () => {
+  it('marks the row canceled', async () => {
+    const { context, supabase } = createWebhookTestContext();
+
+    await handleCustomerSubscriptionDeleted(loadStripeEvent('customer.subscription.deleted'), context);
+
+    const [row] = supabase.queriesFor('subscriptions', 'update');
+    expect(row.payload).toMatchObject({ status: 'canceled', cancel_at_period_end: false });
+    expect(filterValue(row, 'eq', 'stripe_subscription_id')).toBe('sub_1QTeam0001');
+  });
+
+  it('fails the event when the row cannot be updated', async () => {
+    const { context } = createWebhookTestContext(() => ({ error: { message: 'connection refused' } }));
+
+    await expect(handleCustomerSubscriptionDeleted(loadStripeEvent('customer.subscription.deleted'), context))
+      .rejects.toEqual({ message: 'connection refused' });
+  });
+});
@@ -0,0 +1,20 @@
+import type { WebhookHandler } from '../types';
+
+export const handleCustomerSubscriptionDeleted: WebhookHandler<'customer.subscription.deleted'> = async (event, { supabase, log }) => {
+  const subscription = event.data.object;
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      status: subscription.status,
+      cancel_at_period_end: false,
+      current_period_end: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscription.id);
+
+  if (error) {
+    log('Error marking subscription deleted', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCustomerSubscriptionTrialWillEnd } from './customer-subscription-trial-will-end';
+
+describe('handleCustomerSubscriptionTrialWillEnd', () => {
+  it('syncs the trial and records that the reminder went out', async () => {
+    const { context, stripe, supabase } = createWebhookTestContext();
+    stripe.products.retrieve.mockResolvedValue({ id: 'prod_RBasic', name: 'Basic' });
+
+    await handleCustomerSubscriptionTrialWillEnd(loadStripeEvent('customer.subscription.trial_will_end'), context);
+
+    const [row] = supabase.queriesFor('subscriptions', 'update');
+    expect(row.payload).toMatchObject({ status: 'trialing', current_period_end: new Date(1762109600 * 1000).toISOString() });
+
+    const [trial] = supabase.queriesFor('user_trials', 'upsert');
+    expect(trial.payload).toMatchObject({
+      user_id: '3f0c1a52-7d7e-4a55-9d2b-1c2f6b0e8a11',
+      stripe_subscription_id: 'sub_1QTeam0001',
+      trial_end_time: new Date(1762109600 * 1000).toISOString(),
+      is_trial_used: false,
+    });
+
+    const [reminder] = supabase.queriesFor('user_trials', 'update');
+    expect(reminder.payload).toHaveProperty('reminder_sent_at');
+    expect(filterValue(reminder, 'eq', 'stripe_subscription_id')).toBe('sub_1QTeam0001');
+  });
+
+  it('fails the event when the reminder cannot be recorded', async () => {
+    const { context, stripe } = createWebhookTestContext(query =>
+      query.table === 'user_trials' && query.operation === 'update' ? { error: { message: 'timeout' } } : undefined
+    );
+    stripe.products.retrieve.mockResolvedValue({ id: 'prod_RBasic', name: 'Basic' });
+
+    await expect(handleCustomerSubscriptionTrialWillEnd(loadStripeEvent('customer.subscription.trial_will_end'), context))
+      .rejects.toEqual({ message: 'timeout' });
+  });
+});
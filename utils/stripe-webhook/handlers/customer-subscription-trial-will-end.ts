@@ -0,0 +1,16 @@
+import { recordTrialReminder } from '@/utils/trials';
+import type { WebhookHandler } from '../types';
+import { handleCustomerSubscriptionUpdated } from './customer-subscription-updated';
+
+// Stripe sends this three days before the trial ends
+export const handleCustomerSubscriptionTrialWillEnd: WebhookHandler<'customer.subscription.trial_will_end'> = async (event, context) => {
+  const subscription = event.data.object;
+
+  await handleCustomerSubscriptionUpdated(event, context);
+  await recordTrialReminder(subscription.id, context);
+
+  context.log('Trial ending soon', {
+    subscriptionId: subscription.id,
+    trialEnd: subscription.trial_end
+  });
+};
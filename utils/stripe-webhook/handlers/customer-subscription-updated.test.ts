@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue, type RecordedQuery } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCustomerSubscriptionUpdated } from './customer-subscription-updated';
+
+function setup(updateError: unknown = null) {
+  const test = createWebhookTestContext((query: RecordedQuery) =>
+    query.table === 'subscriptions' && query.operation === 'update' && updateError ? { error: updateError } : undefined
+  );
+  test.stripe.products.retrieve.mockResolvedValue({ id: 'prod_RBasic', name: 'Basic' });
+  return test;
+}
+
+describe('handleCustomerSubscriptionUpdated', () => {
+  it('copies the subscription\'s billing and pause state onto its row', async () => {
+    const { context, supabase } = setup();
+
+    await handleCustomerSubscriptionUpdated(loadStripeEvent('customer.subscription.updated'), context);
+
+    const [row, pausedAt, appliedChange] = supabase.queriesFor('subscriptions', 'update');
+
+    expect(row.payload).toMatchObject({
+      status: 'active',
+      price_id: 'price_1QBasicMonthly',
+      product_name: 'Basic',
+      seats: 3,
+      is_paused: true,
+      pause_resumes_at: new Date(1765000000 * 1000).toISOString(),
+      discount_code: null,
+    });
+    expect(filterValue(row, 'eq', 'stripe_subscription_id')).toBe('sub_1QTeam0001');
+
+    // Only set when the pause starts, later updates keep the original time
+    expect(pausedAt.payload).toHaveProperty('paused_at');
+    expect(filterValue(pausedAt, 'is', 'paused_at')).toBeNull();
+
+    expect(appliedChange.payload).toMatchObject({ pending_price_id: null, stripe_schedule_id: null });
+    expect(filterValue(appliedChange, 'eq', 'pending_price_id')).toBe('price_1QBasicMonthly');
+  });
+
+  it('fails the event when the row cannot be updated', async () => {
+    const { context } = setup({ message: 'permission denied' });
+
+    await expect(handleCustomerSubscriptionUpdated(loadStripeEvent('customer.subscription.updated'), context))
+      .rejects.toEqual({ message: 'permission denied' });
+  });
+
+  it('looks up the promotion code behind a discount through the context', async () => {
+    const { context, stripe, supabase } = setup();
+    stripe.promotionCodes.retrieve.mockResolvedValue({ id: 'promo_1QLaunch', code: 'LAUNCH20' });
+    const event = loadStripeEvent('customer.subscription.updated');
+    event.data.object.discount = {
+      id: 'di_1QLaunch',
+      promotion_code: 'promo_1QLaunch',
+      end: null,
+      coupon: { id: 'LAUNCH20', name: 'Launch', percent_off: 20, amount_off: null, currency: null, duration: 'forever', duration_in_months: null },
+    } as unknown as typeof event.data.object.discount;
+
+    await handleCustomerSubscriptionUpdated(event, context);
+
+    expect(stripe.promotionCodes.retrieve).toHaveBeenCalledWith('promo_1QLaunch');
+    const [row] = supabase.queriesFor('subscriptions', 'update');
+    expect(row.payload).toMatchObject({ discount_code: 'LAUNCH20', discount_percent_off: 20 });
+  });
+});
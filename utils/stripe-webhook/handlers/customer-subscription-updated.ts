@@ -0,0 +1,78 @@
+import { getDiscountColumns } from '@/utils/promo-codes';
+import { getPauseColumns, isSubscriptionPaused } from '@/utils/subscription-pause';
+import { syncTrial } from '@/utils/trials';
+import { getBillingColumns, getPlanProduct } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+// pause_collection changes arrive as plain updates, the paused/resumed events cover trials without a card
+export const handleCustomerSubscriptionUpdated: WebhookHandler<
+  | 'customer.subscription.updated'
+  | 'customer.subscription.pending_update_applied'
+  | 'customer.subscription.pending_update_expired'
+  | 'customer.subscription.trial_will_end'
+  | 'customer.subscription.paused'
+  | 'customer.subscription.resumed'
+> = async (event, context) => {
+  const { supabase, log } = context;
+  const subscription = event.data.object;
+  const isPaused = isSubscriptionPaused(subscription);
+
+  const { priceId, product } = await getPlanProduct(context, subscription);
+  const discountColumns = await getDiscountColumns(subscription, context);
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      ...getBillingColumns(subscription),
+      price_id: priceId,
+      product_name: product?.name,
+      product_id: product?.id,
+      ...discountColumns,
+      ...getPauseColumns(subscription),
+      ...(isPaused ? {} : { paused_at: null }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscription.id);
+
+  if (error) {
+    log('Error updating subscription', error);
+    throw error;
+  }
+
+  if (subscription.metadata.user_id) {
+    await syncTrial(subscription, subscription.metadata.user_id, context);
+  }
+
+  // Record when the pause started without overwriting it on later updates
+  if (isPaused) {
+    const { error: pausedAtError } = await supabase
+      .from('subscriptions')
+      .update({ paused_at: new Date().toISOString() })
+      .eq('stripe_subscription_id', subscription.id)
+      .is('paused_at', null);
+
+    if (pausedAtError) {
+      log('Error recording pause start', pausedAtError);
+      throw pausedAtError;
+    }
+  }
+
+  // A scheduled downgrade has taken effect once the subscription is on the pending price
+  if (priceId) {
+    const { error: scheduleError } = await supabase
+      .from('subscriptions')
+      .update({
+        stripe_schedule_id: null,
+        pending_price_id: null,
+        pending_product_name: null,
+        pending_change_at: null
+      })
+      .eq('stripe_subscription_id', subscription.id)
+      .eq('pending_price_id', priceId);
+
+    if (scheduleError) {
+      log('Error clearing applied plan change', scheduleError);
+      throw scheduleError;
+    }
+  }
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCustomerTaxIdChanged } from './customer-tax-id-changed';
+
+describe('handleCustomerTaxIdChanged', () => {
+  it('resyncs the billing profile of the tax ID\'s customer', async () => {
+    const { context, stripe, supabase } = createWebhookTestContext(query =>
+      query.table === 'billing_profiles' ? { data: { tax_ids: [], tax_exempt: 'none' } } : undefined
+    );
+    const event = loadStripeEvent('customer.tax_id.created');
+    stripe.customers.retrieve.mockResolvedValue(loadStripeEvent('customer.updated').data.object);
+    stripe.customers.listTaxIds.mockResolvedValue({ data: [event.data.object] });
+
+    await handleCustomerTaxIdChanged(event, context);
+
+    expect(stripe.customers.listTaxIds).toHaveBeenCalledWith('cus_RTeam0001', { limit: 100 });
+    const [write] = supabase.queriesFor('billing_profiles', 'upsert');
+    expect(write.payload).toMatchObject({ tax_ids: [expect.objectContaining({ value: 'DE123456789' })] });
+  });
+});
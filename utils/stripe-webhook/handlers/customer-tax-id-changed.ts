@@ -0,0 +1,13 @@
+import { syncBillingProfile } from '@/utils/tax';
+import { getId } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleCustomerTaxIdChanged: WebhookHandler<
+  'customer.tax_id.created' | 'customer.tax_id.updated' | 'customer.tax_id.deleted'
+> = async (event, context) => {
+  const customerId = getId(event.data.object.customer);
+
+  if (customerId) {
+    await syncBillingProfile(customerId, context);
+  }
+};
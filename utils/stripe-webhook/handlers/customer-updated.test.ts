@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleCustomerUpdated } from './customer-updated';
+
+const taxId = loadStripeEvent('customer.tax_id.created').data.object;
+
+describe('handleCustomerUpdated', () => {
+  it('copies the customer\'s billing details into billing_profiles', async () => {
+    const { context, stripe, supabase } = createWebhookTestContext(query =>
+      query.table === 'billing_profiles' ? { data: { tax_ids: [], tax_exempt: 'none' } } : undefined
+    );
+    const event = loadStripeEvent('customer.updated');
+    stripe.customers.retrieve.mockResolvedValue({ ...event.data.object, tax: { automatic_tax: 'supported' } });
+    stripe.customers.listTaxIds.mockResolvedValue({ data: [taxId] });
+
+    await handleCustomerUpdated(event, context);
+
+    expect(stripe.customers.retrieve).toHaveBeenCalledWith('cus_RTeam0001', { expand: ['tax'] });
+
+    const [write] = supabase.queriesFor('billing_profiles', 'upsert');
+    expect(write.payload).toMatchObject({
+      user_id: '3f0c1a52-7d7e-4a55-9d2b-1c2f6b0e8a11',
+      stripe_customer_id: 'cus_RTeam0001',
+      name: 'Olivia Owner',
+      address_line1: '510 Townsend St',
+      address_country: 'US',
+      tax_status: 'supported',
+      tax_ids: [{ id: 'txi_1QTeam0001', type: 'eu_vat', value: 'DE123456789', verificationStatus: 'pending' }],
+    });
+  });
+});
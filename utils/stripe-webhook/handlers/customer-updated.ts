@@ -0,0 +1,6 @@
+import { syncBillingProfile } from '@/utils/tax';
+import type { WebhookHandler } from '../types';
+
+export const handleCustomerUpdated: WebhookHandler<'customer.updated'> = async (event, context) => {
+  await syncBillingProfile(event.data.object.id, context);
+};
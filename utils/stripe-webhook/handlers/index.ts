@@ -0,0 +1,61 @@
+import type { WebhookHandlerRegistry } from '../types';
+import { handleCatalogChanged } from './catalog-changed';
+import { handleChargeRefunded } from './charge-refunded';
+import { handleCheckoutSessionCompleted } from './checkout-session-completed';
+import { handleCreditNoteChanged } from './credit-note-changed';
+import { handleCustomerSubscriptionCreated } from './customer-subscription-created';
+import { handleCustomerSubscriptionDeleted } from './customer-subscription-deleted';
+import { handleCustomerSubscriptionTrialWillEnd } from './customer-subscription-trial-will-end';
+import { handleCustomerSubscriptionUpdated } from './customer-subscription-updated';
+import { handleCustomerTaxIdChanged } from './customer-tax-id-changed';
+import { handleCustomerUpdated } from './customer-updated';
+import { handleInvoiceChanged } from './invoice-changed';
+import { handleInvoicePaid } from './invoice-paid';
+import { handleInvoicePaymentFailed } from './invoice-payment-failed';
+import { handleSubscriptionScheduleEnded } from './subscription-schedule-ended';
+
+/**
+ * Handled Stripe events. Subscribe the webhook endpoint to these in the
+ * Stripe dashboard; anything else that arrives is logged and ignored.
+ */
+export const webhookHandlers: WebhookHandlerRegistry = {
+  'checkout.session.completed': handleCheckoutSessionCompleted,
+
+  'customer.subscription.created': handleCustomerSubscriptionCreated,
+  'customer.subscription.updated': handleCustomerSubscriptionUpdated,
+  'customer.subscription.pending_update_applied': handleCustomerSubscriptionUpdated,
+  'customer.subscription.pending_update_expired': handleCustomerSubscriptionUpdated,
+  'customer.subscription.paused': handleCustomerSubscriptionUpdated,
+  'customer.subscription.resumed': handleCustomerSubscriptionUpdated,
+  'customer.subscription.trial_will_end': handleCustomerSubscriptionTrialWillEnd,
+  'customer.subscription.deleted': handleCustomerSubscriptionDeleted,
+
+  'subscription_schedule.released': handleSubscriptionScheduleEnded,
+  'subscription_schedule.canceled': handleSubscriptionScheduleEnded,
+  'subscription_schedule.aborted': handleSubscriptionScheduleEnded,
+  'subscription_schedule.completed': handleSubscriptionScheduleEnded,
+
+  'invoice.created': handleInvoiceChanged,
+  'invoice.finalized': handleInvoiceChanged,
+  'invoice.updated': handleInvoiceChanged,
+  'invoice.voided': handleInvoiceChanged,
+  'invoice.marked_uncollectible': handleInvoiceChanged,
+  'invoice.paid': handleInvoicePaid,
+  'invoice.payment_failed': handleInvoicePaymentFailed,
+
+  'product.created': handleCatalogChanged,
+  'product.updated': handleCatalogChanged,
+  'product.deleted': handleCatalogChanged,
+  'price.created': handleCatalogChanged,
+  'price.updated': handleCatalogChanged,
+  'price.deleted': handleCatalogChanged,
+
+  'charge.refunded': handleChargeRefunded,
+  'credit_note.created': handleCreditNoteChanged,
+  'credit_note.voided': handleCreditNoteChanged,
+
+  'customer.updated': handleCustomerUpdated,
+  'customer.tax_id.created': handleCustomerTaxIdChanged,
+  'customer.tax_id.updated': handleCustomerTaxIdChanged,
+  'customer.tax_id.deleted': handleCustomerTaxIdChanged,
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleInvoiceChanged } from './invoice-changed';
+
+const USER_ID = '3f0c1a52-7d7e-4a55-9d2b-1c2f6b0e8a11';
+
+describe('handleInvoiceChanged', () => {
+  it('stores the invoice with its owner and tax lines', async () => {
+    const { context, stripe, supabase } = createWebhookTestContext(query =>
+      query.table === 'subscriptions' ? { data: { user_id: USER_ID } } : undefined
+    );
+    stripe.taxRates.retrieve.mockResolvedValue({ id: 'txr_1QStateTax', display_name: 'Sales Tax', percentage: 10, effective_percentage: 10 });
+
+    await handleInvoiceChanged(loadStripeEvent('invoice.finalized'), context);
+
+    expect(stripe.taxRates.retrieve).toHaveBeenCalledWith('txr_1QStateTax');
+
+    const [write] = supabase.queriesFor('invoices', 'upsert');
+    expect(write.payload).toMatchObject({
+      stripe_invoice_id: 'in_1QTeam0001',
+      user_id: USER_ID,
+      stripe_subscription_id: 'sub_1QTeam0001',
+      status: 'open',
+      total: 3300,
+      tax: 300,
+      amount_credited: 0,
+      tax_breakdown: [{ name: 'Sales Tax', percentage: 10, amount: 300, inclusive: false, taxabilityReason: 'standard_rated' }],
+    });
+    expect(write.options).toEqual({ onConflict: 'stripe_invoice_id' });
+  });
+
+  it('fails the event when the invoice cannot be stored', async () => {
+    const { context, stripe } = createWebhookTestContext(query =>
+      query.table === 'invoices' ? { error: { message: 'duplicate key' } } : undefined
+    );
+    stripe.taxRates.retrieve.mockResolvedValue({ display_name: 'Sales Tax', percentage: 10, effective_percentage: 10 });
+
+    await expect(handleInvoiceChanged(loadStripeEvent('invoice.finalized'), context)).rejects.toEqual({ message: 'duplicate key' });
+  });
+});
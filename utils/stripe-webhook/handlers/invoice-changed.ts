@@ -0,0 +1,12 @@
+import { upsertInvoice } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleInvoiceChanged: WebhookHandler<
+  | 'invoice.created'
+  | 'invoice.finalized'
+  | 'invoice.updated'
+  | 'invoice.voided'
+  | 'invoice.marked_uncollectible'
+> = async (event, context) => {
+  await upsertInvoice(context, event.data.object);
+};
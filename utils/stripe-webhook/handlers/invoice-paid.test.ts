@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleInvoicePaid } from './invoice-paid';
+
+describe('handleInvoicePaid', () => {
+  it('stores the paid invoice and clears the dunning state', async () => {
+    const { context, stripe, supabase } = createWebhookTestContext();
+    stripe.taxRates.retrieve.mockResolvedValue({ display_name: 'Sales Tax', percentage: 10, effective_percentage: 10 });
+
+    await handleInvoicePaid(loadStripeEvent('invoice.paid'), context);
+
+    const [invoice] = supabase.queriesFor('invoices', 'upsert');
+    expect(invoice.payload).toMatchObject({ status: 'paid', amount_paid: 3300, paid_at: new Date(1763750000 * 1000).toISOString() });
+
+    const [dunning] = supabase.queriesFor('subscriptions', 'update');
+    expect(dunning.payload).toMatchObject({
+      payment_failed_at: null,
+      dunning_attempt_count: 0,
+      dunning_next_retry_at: null,
+      grace_period_ends_at: null,
+    });
+    expect(filterValue(dunning, 'eq', 'stripe_subscription_id')).toBe('sub_1QTeam0001');
+  });
+});
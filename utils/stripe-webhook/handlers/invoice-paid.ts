@@ -0,0 +1,9 @@
+import { clearDunningState, upsertInvoice } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleInvoicePaid: WebhookHandler<'invoice.paid'> = async (event, context) => {
+  const invoice = event.data.object;
+
+  await upsertInvoice(context, invoice);
+  await clearDunningState(context, invoice);
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleInvoicePaymentFailed } from './invoice-payment-failed';
+
+function setup(existing: Record<string, unknown> | null) {
+  const test = createWebhookTestContext(query =>
+    query.table === 'subscriptions' && query.operation === 'select' ? { data: existing } : undefined
+  );
+  test.stripe.taxRates.retrieve.mockResolvedValue({ display_name: 'Sales Tax', percentage: 10, effective_percentage: 10 });
+  return test;
+}
+
+describe('handleInvoicePaymentFailed', () => {
+  it('starts the grace period on the first failure', async () => {
+    const { context, supabase } = setup(null);
+
+    await handleInvoicePaymentFailed(loadStripeEvent('invoice.payment_failed'), context);
+
+    const [dunning] = supabase.queriesFor('subscriptions', 'update');
+    const payload = dunning.payload as Record<string, string | number>;
+    expect(payload).toMatchObject({
+      dunning_attempt_count: 1,
+      dunning_next_retry_at: new Date(1763837600 * 1000).toISOString(),
+    });
+    expect(new Date(payload.grace_period_ends_at).getTime()).toBeGreaterThan(new Date(payload.payment_failed_at).getTime());
+  });
+
+  it('keeps the grace period from the first failure on a retry', async () => {
+    const existing = { payment_failed_at: '2025-11-19T18:00:00.000Z', grace_period_ends_at: '2025-11-26T18:00:00.000Z' };
+    const { context, supabase } = setup(existing);
+
+    await handleInvoicePaymentFailed(loadStripeEvent('invoice.payment_failed'), context);
+
+    const [dunning] = supabase.queriesFor('subscriptions', 'update');
+    expect(dunning.payload).toMatchObject(existing);
+  });
+});
@@ -0,0 +1,15 @@
+import { recordPaymentFailure, upsertInvoice } from '../helpers';
+import type { WebhookHandler } from '../types';
+
+export const handleInvoicePaymentFailed: WebhookHandler<'invoice.payment_failed'> = async (event, context) => {
+  const invoice = event.data.object;
+
+  await upsertInvoice(context, invoice);
+  await recordPaymentFailure(context, invoice);
+  context.log('Invoice payment failed', {
+    invoiceId: invoice.id,
+    subscriptionId: invoice.subscription,
+    attemptCount: invoice.attempt_count,
+    nextPaymentAttempt: invoice.next_payment_attempt
+  });
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterValue } from '@/test/supabase-mock';
+import { createWebhookTestContext, loadStripeEvent } from '@/test/webhook-context';
+
+vi.mock('@/utils/stripe', async () => ({ stripe: (await import('@/test/webhook-context')).unreachableClient('Stripe') }));
+vi.mock('@/utils/supabase-admin', async () => ({
+  supabaseAdmin: (await import('@/test/webhook-context')).unreachableClient('Supabase'),
+}));
+
+import { handleSubscriptionScheduleEnded } from './subscription-schedule-ended';
+
+describe('handleSubscriptionScheduleEnded', () => {
+  it('drops the scheduled plan change from the row', async () => {
+    const { context, supabase } = createWebhookTestContext();
+
+    await handleSubscriptionScheduleEnded(loadStripeEvent('subscription_schedule.released'), context);
+
+    const [row] = supabase.queriesFor('subscriptions', 'update');
+    expect(row.payload).toMatchObject({
+      stripe_schedule_id: null,
+      pending_price_id: null,
+      pending_product_name: null,
+      pending_change_at: null,
+    });
+    expect(filterValue(row, 'eq', 'stripe_schedule_id')).toBe('sub_sched_1QTeam0001');
+  });
+
+  it('fails the event when the row cannot be updated', async () => {
+    const { context } = createWebhookTestContext(() => ({ error: { message: 'connection refused' } }));
+
+    await expect(handleSubscriptionScheduleEnded(loadStripeEvent('subscription_schedule.released'), context))
+      .rejects.toEqual({ message: 'connection refused' });
+  });
+});
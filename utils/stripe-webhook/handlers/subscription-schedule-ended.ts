@@ -0,0 +1,27 @@
+import type { WebhookHandler } from '../types';
+
+// Any way a schedule ends drops the scheduled downgrade it was carrying
+export const handleSubscriptionScheduleEnded: WebhookHandler<
+  | 'subscription_schedule.released'
+  | 'subscription_schedule.canceled'
+  | 'subscription_schedule.aborted'
+  | 'subscription_schedule.completed'
+> = async (event, { supabase, log }) => {
+  const schedule = event.data.object;
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      stripe_schedule_id: null,
+      pending_price_id: null,
+      pending_product_name: null,
+      pending_change_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_schedule_id', schedule.id);
+
+  if (error) {
+    log('Error clearing scheduled plan change', error);
+    throw error;
+  }
+};
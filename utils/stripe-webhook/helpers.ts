@@ -0,0 +1,261 @@
+import Stripe from 'stripe';
+import { getDiscountColumns } from '@/utils/promo-codes';
+import { syncTrial } from '@/utils/trials';
+import { getSeatCount } from '@/utils/seats';
+import { getMeteredItem, getPlanItem } from '@/utils/subscription-items';
+import { getTaxBreakdown } from '@/utils/tax';
+import type { WebhookContext } from './types';
+
+// How long a past_due subscription keeps access after its first failed payment
+const DUNNING_GRACE_DAYS = Number(process.env.STRIPE_DUNNING_GRACE_DAYS || 7);
+
+export function toISOString(timestamp?: number | null) {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : null;
+}
+
+export function getId(value: string | { id: string } | null | undefined) {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * The plan price and its product. Subscription payloads only carry the
+ * product ID, so the product is fetched.
+ */
+export async function getPlanProduct({ stripe }: WebhookContext, subscription: Stripe.Subscription) {
+  const price = getPlanItem(subscription)?.price;
+  const productId = getId(price?.product);
+  const product = productId ? await stripe.products.retrieve(productId) : null;
+
+  return { priceId: price?.id ?? null, product };
+}
+
+// Columns every subscription write keeps in step with Stripe
+export function getBillingColumns(subscription: Stripe.Subscription) {
+  return {
+    status: subscription.status,
+    seats: getSeatCount(subscription),
+    currency: subscription.currency,
+    stripe_metered_item_id: getMeteredItem(subscription)?.id ?? null,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    current_period_start: toISOString(subscription.current_period_start),
+    current_period_end: toISOString(subscription.current_period_end),
+  };
+}
+
+export async function checkExistingSubscription(
+  { supabase }: WebhookContext,
+  customerId: string,
+  excludeSubscriptionId?: string
+): Promise<boolean> {
+  let query = supabase
+    .from('subscriptions')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .in('status', ['active', 'trialing']);
+
+  // A replayed checkout must not count the subscription it created itself
+  if (excludeSubscriptionId) {
+    query = query.neq('stripe_subscription_id', excludeSubscriptionId);
+  }
+
+  const { data: existingSubs } = await query.limit(1);
+
+  return !!existingSubs?.length;
+}
+
+// Find the completed checkout that started a subscription, if we've stored it
+export async function findCheckoutSessionForSubscription(
+  { supabase }: WebhookContext,
+  subscriptionId: string
+): Promise<Stripe.Checkout.Session | null> {
+  const { data } = await supabase
+    .from('stripe_events')
+    .select('payload')
+    .eq('type', 'checkout.session.completed')
+    .eq('payload->data->object->>subscription', subscriptionId)
+    .limit(1)
+    .maybeSingle();
+
+  return data ? (data.payload as Stripe.Event).data.object as Stripe.Checkout.Session : null;
+}
+
+// Keep our copy of an invoice in sync with Stripe
+export async function upsertInvoice(context: WebhookContext, invoice: Stripe.Invoice) {
+  const { supabase, log } = context;
+  const subscriptionId = getId(invoice.subscription);
+  const customerId = getId(invoice.customer);
+
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('user_id')
+    .eq(subscriptionId ? 'stripe_subscription_id' : 'stripe_customer_id', subscriptionId || customerId)
+    .limit(1)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('invoices')
+    .upsert({
+      stripe_invoice_id: invoice.id,
+      user_id: subscription?.user_id ?? null,
+      stripe_customer_id: customerId,
+      stripe_subscription_id: subscriptionId,
+      number: invoice.number,
+      status: invoice.status,
+      billing_reason: invoice.billing_reason,
+      currency: invoice.currency,
+      amount_due: invoice.amount_due,
+      amount_paid: invoice.amount_paid,
+      amount_remaining: invoice.amount_remaining,
+      subtotal: invoice.subtotal,
+      tax: invoice.tax ?? 0,
+      total: invoice.total,
+      tax_breakdown: await getTaxBreakdown(invoice, context),
+      amount_credited: invoice.pre_payment_credit_notes_amount + invoice.post_payment_credit_notes_amount,
+      attempt_count: invoice.attempt_count,
+      next_payment_attempt: toISOString(invoice.next_payment_attempt),
+      hosted_invoice_url: invoice.hosted_invoice_url,
+      invoice_pdf: invoice.invoice_pdf,
+      period_start: toISOString(invoice.period_start),
+      period_end: toISOString(invoice.period_end),
+      paid_at: toISOString(invoice.status_transitions?.paid_at),
+      created_at: toISOString(invoice.created),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'stripe_invoice_id' });
+
+  if (error) {
+    log('Error upserting invoice', error);
+    throw error;
+  }
+}
+
+// Track where a subscription is in Stripe's retry schedule after a failed payment
+export async function recordPaymentFailure({ supabase, log }: WebhookContext, invoice: Stripe.Invoice) {
+  const subscriptionId = getId(invoice.subscription);
+  if (!subscriptionId) return;
+
+  const { data: existing } = await supabase
+    .from('subscriptions')
+    .select('payment_failed_at, grace_period_ends_at')
+    .eq('stripe_subscription_id', subscriptionId)
+    .maybeSingle();
+
+  // The grace period runs from the first failure, retries don't extend it
+  const failedAt = existing?.payment_failed_at ? new Date(existing.payment_failed_at) : new Date();
+  const gracePeriodEndsAt = existing?.grace_period_ends_at
+    ?? new Date(failedAt.getTime() + DUNNING_GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      payment_failed_at: failedAt.toISOString(),
+      dunning_attempt_count: invoice.attempt_count,
+      dunning_next_retry_at: toISOString(invoice.next_payment_attempt),
+      grace_period_ends_at: gracePeriodEndsAt,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscriptionId);
+
+  if (error) {
+    log('Error recording payment failure', error);
+    throw error;
+  }
+}
+
+export async function clearDunningState({ supabase, log }: WebhookContext, invoice: Stripe.Invoice) {
+  const subscriptionId = getId(invoice.subscription);
+  if (!subscriptionId) return;
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      payment_failed_at: null,
+      dunning_attempt_count: 0,
+      dunning_next_retry_at: null,
+      grace_period_ends_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscriptionId);
+
+  if (error) {
+    log('Error clearing dunning state', error);
+    throw error;
+  }
+}
+
+export async function createSubscription(
+  context: WebhookContext,
+  subscriptionId: string,
+  userId: string,
+  customerId: string
+) {
+  const { stripe, supabase, log } = context;
+  log('Starting createSubscription', { subscriptionId, userId, customerId });
+
+  try {
+    const stripeSubscription = await stripe.subscriptions.retrieve(subscriptionId);
+    log('Retrieved Stripe subscription', stripeSubscription);
+
+    const { priceId, product } = await getPlanProduct(context, stripeSubscription);
+
+    log('Retrieved price and product info', {
+      priceId,
+      productName: product?.name,
+      productId: product?.id
+    });
+
+    const discountColumns = await getDiscountColumns(stripeSubscription, context);
+    await syncTrial(stripeSubscription, userId, context);
+
+    // checkout.session.completed, customer.subscription.created and the
+    // post-checkout sync can all land together, the unique key makes this safe
+    const { data, error: upsertError } = await supabase
+      .from('subscriptions')
+      .upsert({
+        ...getBillingColumns(stripeSubscription),
+        user_id: userId,
+        stripe_customer_id: customerId,
+        stripe_subscription_id: subscriptionId,
+        price_id: priceId,
+        // Keep the stored product if Stripe didn't give us one
+        ...(product ? { product_name: product.name, product_id: product.id } : {}),
+        ...discountColumns,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'stripe_subscription_id' })
+      .select()
+      .single();
+
+    if (upsertError) {
+      log('Error upserting subscription', upsertError);
+      throw upsertError;
+    }
+
+    log('Successfully stored subscription', data);
+
+    // Update user preferences to mark onboarding as completed
+    try {
+      const { error: preferencesError } = await supabase
+        .from('user_preferences')
+        .upsert({
+          user_id: userId,
+          has_completed_onboarding: true,
+          updated_at: new Date().toISOString()
+        });
+
+      if (preferencesError) {
+        log('Error updating user preferences', preferencesError);
+        // Don't throw error here - subscription creation should succeed even if preferences update fails
+      } else {
+        log('Successfully updated user onboarding status', { userId });
+      }
+    } catch (preferencesUpdateError) {
+      log('Error in preferences update', preferencesUpdateError);
+      // Log but don't fail the subscription creation
+    }
+
+    return data;
+  } catch (error) {
+    log('Error in createSubscription', error);
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import Stripe from 'stripe';
+import { createWebhookContext, logWebhookEvent } from './context';
+import { webhookHandlers } from './handlers';
+import type { WebhookContext, WebhookResult } from './types';
+
+export { createWebhookContext, logWebhookEvent };
+export type { WebhookContext, WebhookHandler, WebhookResult } from './types';
+
+type AnyWebhookHandler = (event: Stripe.Event, context: WebhookContext) => Promise<WebhookResult | void>;
+
+export async function handleStripeEvent(
+  event: Stripe.Event,
+  context: WebhookContext = createWebhookContext()
+): Promise<WebhookResult> {
+  // The registry is keyed by event type, so the handler always matches the event
+  const handler = webhookHandlers[event.type] as AnyWebhookHandler | undefined;
+
+  if (!handler) {
+    context.log(`Unhandled event type: ${event.type}`, { eventId: event.id });
+    return { status: 'ignored' };
+  }
+
+  return (await handler(event, context)) ?? { status: 'handled' };
+}
@@ -0,0 +1,29 @@
+import Stripe from 'stripe';
+import type { BillingClients } from '@/utils/clients';
+
+export interface WebhookResult {
+  status: 'handled' | 'blocked' | 'ignored';
+  message?: string;
+}
+
+export type WebhookLogger = (message: string, data?: unknown) => void;
+
+// Everything a handler talks to, passed in so handlers can run against fakes.
+// Handlers hand it on to the billing helpers they call.
+export interface WebhookContext extends BillingClients {
+  log: WebhookLogger;
+  invalidatePlanCatalog: () => void;
+}
+
+export type StripeEventOf<T extends Stripe.Event.Type> = Extract<Stripe.Event, { type: T }>;
+
+// Returning nothing counts as handled
+export type WebhookHandler<T extends Stripe.Event.Type> = (
+  event: StripeEventOf<T>,
+  context: WebhookContext
+) => Promise<WebhookResult | void>;
+
+// Spelled out rather than WebhookHandler<T> so one handler can be registered for several related types
+export type WebhookHandlerRegistry = {
+  [T in Stripe.Event.Type]?: (event: StripeEventOf<T>, context: WebhookContext) => Promise<WebhookResult | void>;
+};
@@ -0,0 +1,7 @@
+import Stripe from 'stripe';
+
+if (!process.env.STRIPE_SECRET_KEY) {
+  throw new Error('Missing env.STRIPE_SECRET_KEY');
+}
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
@@ -0,0 +1,18 @@
+import Stripe from 'stripe';
+
+/**
+ * A subscription carries the flat plan price and, when usage billing is
+ * enabled, a second item with the metered price. Seats and plan changes only
+ * ever touch the plan item.
+ */
+export function isMeteredPrice(price: Stripe.Price) {
+  return price.recurring?.usage_type === 'metered';
+}
+
+export function getPlanItem(subscription: Stripe.Subscription): Stripe.SubscriptionItem {
+  return subscription.items.data.find(item => !isMeteredPrice(item.price)) ?? subscription.items.data[0];
+}
+
+export function getMeteredItem(subscription: Stripe.Subscription): Stripe.SubscriptionItem | undefined {
+  return subscription.items.data.find(item => isMeteredPrice(item.price));
+}
@@ -0,0 +1,65 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+
+/**
+ * A subscription is paused either through pause_collection (the customer
+ * paused it) or with Stripe's `paused` status (a trial ended without a
+ * payment method).
+ */
+export function isSubscriptionPaused(subscription: Stripe.Subscription) {
+  return !!subscription.pause_collection || subscription.status === 'paused';
+}
+
+export function getPauseColumns(subscription: Stripe.Subscription) {
+  const resumesAt = subscription.pause_collection?.resumes_at;
+
+  return {
+    is_paused: isSubscriptionPaused(subscription),
+    pause_resumes_at: resumesAt ? new Date(resumesAt * 1000).toISOString() : null,
+  };
+}
+
+async function storePauseState(subscription: Stripe.Subscription) {
+  const isPaused = isSubscriptionPaused(subscription);
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      ...getPauseColumns(subscription),
+      status: subscription.status,
+      paused_at: isPaused ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscription.id);
+
+  if (error) {
+    console.error('Error storing pause state:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stop collecting payments. Invoices created while paused are voided, so the
+ * customer isn't charged for the time away.
+ */
+export async function pauseSubscription(subscriptionId: string, resumesAt?: Date) {
+  const subscription = await stripe.subscriptions.update(subscriptionId, {
+    pause_collection: {
+      behavior: 'void',
+      ...(resumesAt ? { resumes_at: Math.floor(resumesAt.getTime() / 1000) } : {}),
+    },
+  });
+
+  await storePauseState(subscription);
+  return subscription;
+}
+
+export async function resumeSubscription(subscription: Stripe.Subscription) {
+  const resumed = subscription.status === 'paused'
+    ? await stripe.subscriptions.resume(subscription.id, { billing_cycle_anchor: 'now' })
+    : await stripe.subscriptions.update(subscription.id, { pause_collection: '' });
+
+  await storePauseState(resumed);
+  return resumed;
+}
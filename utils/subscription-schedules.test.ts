@@ -0,0 +1,104 @@
+import Stripe from 'stripe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock, filterValue } from '@/test/supabase-mock';
+
+const mocks = vi.hoisted(() => ({
+  stripe: {
+    products: { retrieve: vi.fn() },
+    subscriptionSchedules: { create: vi.fn(), retrieve: vi.fn(), update: vi.fn(), release: vi.fn() },
+  },
+  supabase: { current: null as ReturnType<typeof createSupabaseMock> | null },
+}));
+
+vi.mock('@/utils/stripe', () => ({ stripe: mocks.stripe }));
+vi.mock('@/utils/supabase-admin', () => ({
+  get supabaseAdmin() {
+    return mocks.supabase.current!.supabase;
+  },
+}));
+
+import { scheduleDowngrade } from './subscription-schedules';
+
+const PERIOD_END = 1767225600;
+
+function recurringPrice(id: string, unitAmount: number, product: Stripe.Price['product']) {
+  return {
+    id,
+    object: 'price',
+    active: true,
+    currency: 'usd',
+    unit_amount: unitAmount,
+    product,
+    recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed' },
+  } as unknown as Stripe.Price;
+}
+
+function subscriptionOn(price: Stripe.Price) {
+  return {
+    id: 'sub_123',
+    schedule: null,
+    current_period_end: PERIOD_END,
+    automatic_tax: { enabled: false },
+    items: { data: [{ id: 'si_123', price, quantity: 2 }] },
+  } as unknown as Stripe.Subscription;
+}
+
+describe('scheduleDowngrade', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.supabase.current = createSupabaseMock();
+    // stripe-node rejects anything but a string ID
+    mocks.stripe.products.retrieve.mockImplementation(async (id: unknown) => {
+      if (typeof id !== 'string') throw new Error('Argument "id" must be a string');
+      return { id, name: 'Basic' };
+    });
+    mocks.stripe.subscriptionSchedules.create.mockResolvedValue({ id: 'sub_sched_1', phases: [{ start_date: 1764547200 }] });
+    mocks.stripe.subscriptionSchedules.update.mockResolvedValue({ id: 'sub_sched_1' });
+  });
+
+  it('handles a price with its product expanded, as the upgrade route passes it', async () => {
+    const current = recurringPrice('price_pro', 4000, 'prod_pro');
+    const expandedProduct = { id: 'prod_basic', object: 'product', name: 'Basic' } as Stripe.Product;
+    const newPrice = recurringPrice('price_basic', 1000, expandedProduct);
+
+    const result = await scheduleDowngrade(subscriptionOn(current), newPrice);
+
+    expect(mocks.stripe.products.retrieve).toHaveBeenCalledWith('prod_basic');
+    expect(result).toEqual({
+      scheduleId: 'sub_sched_1',
+      productName: 'Basic',
+      changeAt: new Date(PERIOD_END * 1000).toISOString(),
+    });
+
+    const [write] = mocks.supabase.current!.queriesFor('subscriptions', 'update');
+    expect(write.payload).toMatchObject({
+      stripe_schedule_id: 'sub_sched_1',
+      pending_price_id: 'price_basic',
+      pending_product_name: 'Basic',
+    });
+    expect(filterValue(write, 'eq', 'stripe_subscription_id')).toBe('sub_123');
+  });
+
+  it('keeps the seat quantity and switches price in the second phase', async () => {
+    const current = recurringPrice('price_pro', 4000, 'prod_pro');
+    const newPrice = recurringPrice('price_basic', 1000, 'prod_basic');
+
+    await scheduleDowngrade(subscriptionOn(current), newPrice);
+
+    const [, params] = mocks.stripe.subscriptionSchedules.update.mock.calls[0];
+    expect(params.phases[0].items).toEqual([{ price: 'price_pro', quantity: 2 }]);
+    expect(params.phases[0].end_date).toBe(PERIOD_END);
+    expect(params.phases[1].items).toEqual([{ price: 'price_basic', quantity: 2 }]);
+  });
+
+  it('does not touch the schedule when the product lookup fails', async () => {
+    mocks.stripe.products.retrieve.mockRejectedValue(new Error('No such product'));
+    const current = recurringPrice('price_pro', 4000, 'prod_pro');
+    const newPrice = recurringPrice('price_basic', 1000, 'prod_basic');
+
+    await expect(scheduleDowngrade(subscriptionOn(current), newPrice)).rejects.toThrow('No such product');
+
+    expect(mocks.stripe.subscriptionSchedules.create).not.toHaveBeenCalled();
+    expect(mocks.stripe.subscriptionSchedules.update).not.toHaveBeenCalled();
+  });
+});
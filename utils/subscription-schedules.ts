@@ -0,0 +1,123 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import { toPlanPrice } from '@/utils/plan-catalog';
+import { isIntervalChange, isPlanDowngrade } from '@/utils/plans';
+import { getMeteredItem, getPlanItem } from '@/utils/subscription-items';
+
+function productIdOf(price: Stripe.Price) {
+  return typeof price.product === 'string' ? price.product : price.product.id;
+}
+
+export function isDowngrade(currentPrice: Stripe.Price, newPrice: Stripe.Price) {
+  const current = toPlanPrice(currentPrice);
+  const target = toPlanPrice(newPrice);
+  if (!current || !target) return false;
+
+  return isPlanDowngrade(
+    { productId: productIdOf(currentPrice), price: current },
+    { productId: productIdOf(newPrice), price: target }
+  );
+}
+
+// Moving between monthly and yearly restarts the billing period
+export function changesBillingInterval(currentPrice: Stripe.Price, newPrice: Stripe.Price) {
+  const current = toPlanPrice(currentPrice);
+  const target = toPlanPrice(newPrice);
+  if (!current || !target) return false;
+
+  return isIntervalChange(current, target);
+}
+
+/**
+ * Keep the current price until the end of the period, then switch to the new
+ * price. The schedule releases itself after the switch so the subscription
+ * carries on as a normal subscription.
+ */
+export async function scheduleDowngrade(
+  subscription: Stripe.Subscription,
+  newPrice: Stripe.Price,
+  promotionCodeId?: string
+) {
+  const currentItem = getPlanItem(subscription);
+  // Phases replace all items, so carry the metered usage price over to both
+  const meteredItem = getMeteredItem(subscription);
+  const meteredItems = meteredItem ? [{ price: meteredItem.price.id }] : [];
+  const automaticTax = subscription.automatic_tax.enabled ? { automatic_tax: { enabled: true } } : {};
+
+  // Resolved before the schedule is touched so a failure can't leave Stripe half-changed.
+  // Callers may pass the price with its product expanded
+  const product = await stripe.products.retrieve(productIdOf(newPrice));
+
+  const schedule = subscription.schedule
+    ? await stripe.subscriptionSchedules.retrieve(subscription.schedule as string)
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    proration_behavior: 'none',
+    phases: [
+      {
+        items: [{ price: currentItem.price.id, quantity: currentItem.quantity }, ...meteredItems],
+        start_date: schedule.phases[0].start_date,
+        end_date: subscription.current_period_end,
+        ...automaticTax,
+      },
+      {
+        items: [{ price: newPrice.id, quantity: currentItem.quantity }, ...meteredItems],
+        iterations: 1,
+        ...automaticTax,
+        ...(promotionCodeId ? { discounts: [{ promotion_code: promotionCodeId }] } : {}),
+      },
+    ],
+  });
+
+  const changeAt = new Date(subscription.current_period_end * 1000).toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      stripe_schedule_id: schedule.id,
+      pending_price_id: newPrice.id,
+      pending_product_name: product.name,
+      pending_change_at: changeAt,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscription.id);
+
+  if (error) {
+    console.error('Error storing scheduled downgrade:', error);
+    throw error;
+  }
+
+  return { scheduleId: schedule.id, productName: product.name, changeAt };
+}
+
+/**
+ * Drop any scheduled plan change and keep the subscription on its current price.
+ */
+export async function releaseScheduledChange(subscription: Stripe.Subscription) {
+  if (subscription.schedule) {
+    await stripe.subscriptionSchedules.release(subscription.schedule as string);
+  }
+
+  await clearPendingChange(subscription.id);
+}
+
+export async function clearPendingChange(subscriptionId: string) {
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      stripe_schedule_id: null,
+      pending_price_id: null,
+      pending_product_name: null,
+      pending_change_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscriptionId);
+
+  if (error) {
+    console.error('Error clearing scheduled change:', error);
+    throw error;
+  }
+}
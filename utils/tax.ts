@@ -0,0 +1,209 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import type { BillingClients } from '@/utils/clients';
+import type {
+  BillingAddress,
+  BillingProfile,
+  TaxBreakdownLine,
+  TaxExempt,
+  TaxIdSummary,
+  TaxStatus
+} from '@/types/BillingTypes';
+
+// Stripe Tax has to be set up in the dashboard first, so it's opt-in with STRIPE_AUTOMATIC_TAX=true
+export const AUTOMATIC_TAX_ENABLED = process.env.STRIPE_AUTOMATIC_TAX === 'true';
+
+type BillingProfileRow = {
+  name: string | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  address_city: string | null;
+  address_state: string | null;
+  address_postal_code: string | null;
+  address_country: string | null;
+  tax_exempt: TaxExempt;
+  tax_status: TaxStatus | null;
+  tax_ids: TaxIdSummary[];
+};
+
+function toBillingProfile(row: BillingProfileRow): BillingProfile {
+  return {
+    name: row.name,
+    address: {
+      line1: row.address_line1,
+      line2: row.address_line2,
+      city: row.address_city,
+      state: row.address_state,
+      postalCode: row.address_postal_code,
+      country: row.address_country,
+    },
+    taxExempt: row.tax_exempt,
+    taxStatus: row.tax_status,
+    taxIds: row.tax_ids,
+  };
+}
+
+function toTaxIdSummary(taxId: Stripe.TaxId): TaxIdSummary {
+  return {
+    id: taxId.id,
+    type: taxId.type,
+    value: taxId.value,
+    verificationStatus: taxId.verification?.status ?? null,
+  };
+}
+
+export async function getBillingProfile(userId: string): Promise<BillingProfile | null> {
+  const { data, error } = await supabaseAdmin
+    .from('billing_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toBillingProfile(data) : null;
+}
+
+/**
+ * Copy the customer's address and tax details from Stripe into
+ * billing_profiles. Called from the webhook and after edits on the profile page.
+ */
+export async function syncBillingProfile(
+  customerId: string,
+  clients: BillingClients = { stripe, supabase: supabaseAdmin }
+): Promise<BillingProfile | null> {
+  const customer = await clients.stripe.customers.retrieve(customerId, { expand: ['tax'] });
+  if (customer.deleted) return null;
+
+  let userId = customer.metadata.user_id;
+
+  if (!userId) {
+    const { data } = await clients.supabase
+      .from('subscriptions')
+      .select('user_id')
+      .eq('stripe_customer_id', customerId)
+      .limit(1)
+      .maybeSingle();
+
+    userId = data?.user_id;
+  }
+
+  if (!userId) {
+    console.warn('No user found for customer, skipping billing profile sync:', customerId);
+    return null;
+  }
+
+  const taxIds = await clients.stripe.customers.listTaxIds(customerId, { limit: 100 });
+
+  const { data, error } = await clients.supabase
+    .from('billing_profiles')
+    .upsert({
+      user_id: userId,
+      stripe_customer_id: customerId,
+      name: customer.name,
+      address_line1: customer.address?.line1 ?? null,
+      address_line2: customer.address?.line2 ?? null,
+      address_city: customer.address?.city ?? null,
+      address_state: customer.address?.state ?? null,
+      address_postal_code: customer.address?.postal_code ?? null,
+      address_country: customer.address?.country ?? null,
+      tax_exempt: customer.tax_exempt ?? 'none',
+      tax_status: customer.tax?.automatic_tax ?? null,
+      tax_ids: taxIds.data.map(toTaxIdSummary),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error syncing billing profile:', error);
+    throw error;
+  }
+
+  return toBillingProfile(data);
+}
+
+/**
+ * Update the customer's billing details in Stripe. We keep a single tax ID per
+ * customer: a new one replaces the old, null removes it.
+ */
+export async function updateBillingProfile(
+  customerId: string,
+  details: {
+    name: string | null;
+    address: BillingAddress;
+    taxId: { type: string; value: string } | null;
+  }
+) {
+  await stripe.customers.update(customerId, {
+    name: details.name ?? '',
+    address: {
+      line1: details.address.line1 ?? '',
+      line2: details.address.line2 ?? '',
+      city: details.address.city ?? '',
+      state: details.address.state ?? '',
+      postal_code: details.address.postalCode ?? '',
+      country: details.address.country ?? '',
+    },
+  });
+
+  const { data: existingTaxIds } = await stripe.customers.listTaxIds(customerId, { limit: 100 });
+  const keep = details.taxId && existingTaxIds.find(
+    taxId => taxId.type === details.taxId!.type && taxId.value === details.taxId!.value
+  );
+
+  if (details.taxId && !keep) {
+    await stripe.customers.createTaxId(customerId, {
+      type: details.taxId.type as Stripe.TaxIdCreateParams.Type,
+      value: details.taxId.value,
+    });
+  }
+
+  for (const taxId of existingTaxIds) {
+    if (taxId.id !== keep?.id) {
+      await stripe.customers.deleteTaxId(customerId, taxId.id);
+    }
+  }
+
+  return syncBillingProfile(customerId);
+}
+
+/**
+ * Params to keep tax on a subscription change. Subscriptions from before tax
+ * collection only switch on once Stripe can locate the customer, otherwise the
+ * update would be rejected.
+ */
+export async function getAutomaticTaxParams(subscription: Stripe.Subscription) {
+  if (!AUTOMATIC_TAX_ENABLED) return {};
+  if (subscription.automatic_tax.enabled) return { automatic_tax: { enabled: true } };
+
+  const { data } = await supabaseAdmin
+    .from('billing_profiles')
+    .select('tax_status')
+    .eq('stripe_customer_id', subscription.customer as string)
+    .maybeSingle();
+
+  return data?.tax_status === 'supported' || data?.tax_status === 'not_collecting'
+    ? { automatic_tax: { enabled: true } }
+    : {};
+}
+
+// Per-rate tax lines for an invoice, resolving tax rates the payload only references by ID
+export async function getTaxBreakdown(
+  invoice: Stripe.Invoice,
+  clients: Pick<BillingClients, 'stripe'> = { stripe }
+): Promise<TaxBreakdownLine[]> {
+  return Promise.all(invoice.total_tax_amounts.map(async taxAmount => {
+    const taxRate = typeof taxAmount.tax_rate === 'string'
+      ? await clients.stripe.taxRates.retrieve(taxAmount.tax_rate)
+      : taxAmount.tax_rate;
+
+    return {
+      name: taxRate.display_name,
+      percentage: taxRate.effective_percentage ?? taxRate.percentage,
+      amount: taxAmount.amount,
+      inclusive: taxAmount.inclusive,
+      taxabilityReason: taxAmount.taxability_reason,
+    };
+  }));
+}
@@ -0,0 +1,10 @@
+export type TrialMode = 'card_required' | 'no_card';
+
+// Public so pricing pages can advertise the trial; 0 turns trials off
+export const TRIAL_DAYS = Math.max(0, Number(process.env.NEXT_PUBLIC_TRIAL_DAYS || 0));
+
+// no_card lets people start a trial without a payment method; the
+// subscription pauses at trial end unless they add one
+export const TRIAL_MODE: TrialMode = process.env.NEXT_PUBLIC_TRIAL_MODE === 'no_card' ? 'no_card' : 'card_required';
+
+export const isTrialEnabled = TRIAL_DAYS > 0;
@@ -0,0 +1,57 @@
+import Stripe from 'stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import type { BillingClients } from '@/utils/clients';
+
+// One trial per user, whether it converted, was cancelled or is still running
+export async function hasUsedTrial(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('user_trials')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Mirror a Stripe trial into user_trials. The row is marked used once the
+ * subscription leaves the trialing state.
+ */
+export async function syncTrial(
+  subscription: Stripe.Subscription,
+  userId: string,
+  { supabase }: Pick<BillingClients, 'supabase'> = { supabase: supabaseAdmin }
+) {
+  if (!subscription.trial_start || !subscription.trial_end) return;
+
+  const { error } = await supabase
+    .from('user_trials')
+    .upsert({
+      user_id: userId,
+      stripe_subscription_id: subscription.id,
+      trial_start_time: new Date(subscription.trial_start * 1000).toISOString(),
+      trial_end_time: new Date(subscription.trial_end * 1000).toISOString(),
+      is_trial_used: subscription.status !== 'trialing'
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error syncing trial:', error);
+    throw error;
+  }
+}
+
+export async function recordTrialReminder(
+  subscriptionId: string,
+  { supabase }: Pick<BillingClients, 'supabase'> = { supabase: supabaseAdmin }
+) {
+  const { error } = await supabase
+    .from('user_trials')
+    .update({ reminder_sent_at: new Date().toISOString() })
+    .eq('stripe_subscription_id', subscriptionId);
+
+  if (error) {
+    console.error('Error recording trial reminder:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import { stripe } from '@/utils/stripe';
+import { supabaseAdmin } from '@/utils/supabase-admin';
+import type { CurrentUsage } from '@/types/UsageTypes';
+
+export type UsageMetric = 'code_generation';
+
+export interface UsageReportResult {
+  reported: number; // Usage records created in Stripe
+  failed: number; // Batches left for the next run
+}
+
+interface UsageBatch {
+  batchId: string;
+  itemId: string;
+  quantity: number;
+  eventIds: string[];
+}
+
+/**
+ * The subscription usage is billed to: the user's current subscription, as
+ * long as it has a metered item and isn't paused.
+ */
+async function getBillableSubscription(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select('id, stripe_metered_item_id, currency, current_period_start, current_period_end')
+    .eq('user_id', userId)
+    .in('status', ['active', 'trialing', 'past_due'])
+    .eq('is_paused', false)
+    .not('stripe_metered_item_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Record billable usage for a user. Returns null when the user's plan has no
+ * usage billing, so callers can treat usage as free rather than failing.
+ */
+export async function recordUsage(userId: string, metric: UsageMetric, quantity = 1) {
+  const subscription = await getBillableSubscription(userId);
+  if (!subscription) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('usage_events')
+    .insert({
+      user_id: userId,
+      subscription_id: subscription.id,
+      stripe_subscription_item_id: subscription.stripe_metered_item_id,
+      metric,
+      quantity
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error recording usage:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Usage in the current billing period, including events that haven't been
+ * reported to Stripe yet.
+ */
+export async function getCurrentUsage(userId: string): Promise<CurrentUsage | null> {
+  const subscription = await getBillableSubscription(userId);
+  if (!subscription) return null;
+
+  let query = supabaseAdmin
+    .from('usage_events')
+    .select('quantity')
+    .eq('subscription_id', subscription.id);
+
+  if (subscription.current_period_start) {
+    query = query.gte('created_at', subscription.current_period_start);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const item = await stripe.subscriptionItems.retrieve(subscription.stripe_metered_item_id, {
+    expand: ['price.currency_options'],
+  });
+  // Multi-currency prices bill the subscription's currency, not the price's default
+  const currency = subscription.currency || item.price.currency;
+  const unitAmount = currency === item.price.currency
+    ? item.price.unit_amount
+    : item.price.currency_options?.[currency]?.unit_amount ?? null;
+
+  return {
+    quantity: (data || []).reduce((total, event) => total + event.quantity, 0),
+    periodStart: subscription.current_period_start,
+    periodEnd: subscription.current_period_end,
+    unitAmount,
+    currency,
+  };
+}
+
+/**
+ * Push unreported usage to Stripe. New events are first claimed into a batch
+ * so that a run which fails half way retries the same totals under the same
+ * idempotency keys, instead of reporting them twice.
+ */
+export async function reportUsage(): Promise<UsageReportResult> {
+  const { error: claimError } = await supabaseAdmin
+    .from('usage_events')
+    .update({ report_batch_id: randomUUID() })
+    .is('report_batch_id', null)
+    .is('reported_at', null);
+
+  if (claimError) throw claimError;
+
+  const { data: events, error } = await supabaseAdmin
+    .from('usage_events')
+    .select('id, report_batch_id, stripe_subscription_item_id, quantity')
+    .is('reported_at', null)
+    .not('report_batch_id', 'is', null);
+
+  if (error) throw error;
+
+  // One usage record per batch and subscription item
+  const batches = new Map<string, UsageBatch>();
+  for (const event of events || []) {
+    const key = `${event.report_batch_id}:${event.stripe_subscription_item_id}`;
+    const batch: UsageBatch = batches.get(key) || {
+      batchId: event.report_batch_id,
+      itemId: event.stripe_subscription_item_id,
+      quantity: 0,
+      eventIds: []
+    };
+
+    batch.quantity += event.quantity;
+    batch.eventIds.push(event.id);
+    batches.set(key, batch);
+  }
+
+  const result: UsageReportResult = { reported: 0, failed: 0 };
+
+  for (const batch of batches.values()) {
+    try {
+      await stripe.subscriptionItems.createUsageRecord(
+        batch.itemId,
+        { quantity: batch.quantity, timestamp: 'now', action: 'increment' },
+        { idempotencyKey: `usage-${batch.batchId}-${batch.itemId}` }
+      );
+
+      const { error: markError } = await supabaseAdmin
+        .from('usage_events')
+        .update({ reported_at: new Date().toISOString() })
+        .in('id', batch.eventIds);
+
+      if (markError) throw markError;
+      result.reported++;
+    } catch (error) {
+      console.error('Error reporting usage batch:', { ...batch, eventIds: batch.eventIds.length }, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}